@@ -0,0 +1,206 @@
+import type { AnyColumn } from 'drizzle-orm'
+import {
+  index as mysqlIndex,
+  int,
+  json,
+  type MySqlColumnBuilderBase,
+  mysqlTable,
+  timestamp as mysqlTimestamp,
+  varchar
+} from 'drizzle-orm/mysql-core'
+import {
+  integer as pgInteger,
+  index as pgIndex,
+  jsonb,
+  type PgColumnBuilderBase,
+  pgTable,
+  text as pgText,
+  timestamp as pgTimestamp
+} from 'drizzle-orm/pg-core'
+import {
+  integer as sqliteInteger,
+  index as sqliteIndex,
+  type SQLiteColumnBuilderBase,
+  sqliteTable,
+  text as sqliteText
+} from 'drizzle-orm/sqlite-core'
+import type { DrizzleSessionColumns } from './drizzle.js'
+
+/** Options for the `sessionTable` builders. */
+export interface SessionTableOptions<TDataColumns extends Record<string, unknown> = {}> {
+  /**
+   * `json` stores session data in a JSON `data` column. `columns` leaves it out, so session keys
+   * live in `dataColumns` and are mapped with the adapter's `dataColumns` option.
+   * Defaults to `json`.
+   */
+  dataMode?: 'json' | 'columns'
+  /** Adds an indexed `user_id` column for the per-user session index. */
+  userId?: boolean
+  /** Adds a `created_at` column, used for absolute timeouts. */
+  createdAt?: boolean
+  /** Extra columns added to the table, typically the session keys in `columns` mode. */
+  dataColumns?: TDataColumns
+}
+
+/** Columns added by a builder, depending on its options. */
+type SessionTableColumns<
+  TOptions extends SessionTableOptions<Record<string, unknown>>,
+  TCore,
+  TData,
+  TUserId,
+  TCreatedAt
+> = TCore &
+  (TOptions extends { dataMode: 'columns' } ? {} : TData) &
+  (TOptions extends { userId: true } ? TUserId : {}) &
+  (TOptions extends { createdAt: true } ? TCreatedAt : {}) &
+  (TOptions extends { dataColumns: infer TDataColumns } ? TDataColumns : {})
+
+/**
+ * Adapter column selectors of a builder's table. The `data` selector is only present when the
+ * table has a `data` column, so `columns` mode tables must map every key in `dataColumns`.
+ */
+type SessionTableSelectors<TTable extends object> = DrizzleSessionColumns<TTable> &
+  (TTable extends { data: unknown }
+    ? { data: (table: TTable) => AnyColumn }
+    : { data?: undefined })
+
+const pgTimestampConfig = { withTimezone: true, mode: 'date', precision: 3 } as const
+
+const pgColumns = {
+  core: () => ({
+    id: pgText('id').primaryKey(),
+    meta: jsonb('meta'),
+    version: pgInteger('version'),
+    expiresAt: pgTimestamp('expires_at', pgTimestampConfig).notNull()
+  }),
+  data: () => ({ data: jsonb('data').notNull() }),
+  userId: () => ({ userId: pgText('user_id') }),
+  createdAt: () => ({ createdAt: pgTimestamp('created_at', pgTimestampConfig) })
+}
+
+const sqliteColumns = {
+  core: () => ({
+    id: sqliteText('id').primaryKey(),
+    meta: sqliteText('meta', { mode: 'json' }),
+    version: sqliteInteger('version'),
+    expiresAt: sqliteInteger('expires_at', { mode: 'timestamp_ms' }).notNull()
+  }),
+  data: () => ({ data: sqliteText('data', { mode: 'json' }).notNull() }),
+  userId: () => ({ userId: sqliteText('user_id') }),
+  createdAt: () => ({ createdAt: sqliteInteger('created_at', { mode: 'timestamp_ms' }) })
+}
+
+const mysqlColumns = {
+  core: () => ({
+    id: varchar('id', { length: 255 }).primaryKey(),
+    meta: json('meta'),
+    version: int('version'),
+    expiresAt: mysqlTimestamp('expires_at', { mode: 'date', fsp: 3 }).notNull()
+  }),
+  data: () => ({ data: json('data').notNull() }),
+  userId: () => ({ userId: varchar('user_id', { length: 255 }) }),
+  createdAt: () => ({ createdAt: mysqlTimestamp('created_at', { mode: 'date', fsp: 3 }) })
+}
+
+const buildColumns = (
+  builders: Record<'core' | 'data' | 'userId' | 'createdAt', () => Record<string, unknown>>,
+  options: SessionTableOptions<Record<string, unknown>>
+): Record<string, unknown> => ({
+  ...builders.core(),
+  ...(options.dataMode === 'columns' ? {} : builders.data()),
+  ...(options.userId ? builders.userId() : {}),
+  ...(options.createdAt ? builders.createdAt() : {}),
+  ...options.dataColumns
+})
+
+/** Index names are prefixed with the table name, since they share one namespace per schema. */
+const buildIndexes = <TIndex>(
+  name: string,
+  table: Record<string, unknown>,
+  index: (indexName: string) => { on: (column: any) => TIndex }
+): TIndex[] => [
+  index(`${name}_expires_at_idx`).on(table.expiresAt),
+  ...('userId' in table ? [index(`${name}_user_id_idx`).on(table.userId)] : [])
+]
+
+/**
+ * Ready-made session tables whose column types match the Drizzle adapter's defaults: JSON
+ * data and metadata columns, and millisecond-precision timestamps read back as `Date`.
+ * Every table indexes `expires_at`, and `user_id` when enabled.
+ *
+ * ```ts
+ * export const sessions = sessionTable.pg('sessions', { userId: true })
+ *
+ * createDrizzleSessionAdapter({ db, table: sessions, columns: sessionTable.columns(sessions) })
+ * ```
+ */
+export const sessionTable = {
+  /** Postgres table with `jsonb` data and `timestamptz` expiry. */
+  pg<
+    TName extends string,
+    const TOptions extends SessionTableOptions<Record<string, PgColumnBuilderBase>> = {}
+  >(name: TName, options: TOptions = {} as TOptions) {
+    type Columns = SessionTableColumns<
+      TOptions,
+      ReturnType<typeof pgColumns.core>,
+      ReturnType<typeof pgColumns.data>,
+      ReturnType<typeof pgColumns.userId>,
+      ReturnType<typeof pgColumns.createdAt>
+    >
+
+    return pgTable(name, buildColumns(pgColumns, options) as Columns, (table) =>
+      buildIndexes(name, table, pgIndex)
+    )
+  },
+  /** SQLite table with JSON `text` data and millisecond `integer` expiry. */
+  sqlite<
+    TName extends string,
+    const TOptions extends SessionTableOptions<Record<string, SQLiteColumnBuilderBase>> = {}
+  >(name: TName, options: TOptions = {} as TOptions) {
+    type Columns = SessionTableColumns<
+      TOptions,
+      ReturnType<typeof sqliteColumns.core>,
+      ReturnType<typeof sqliteColumns.data>,
+      ReturnType<typeof sqliteColumns.userId>,
+      ReturnType<typeof sqliteColumns.createdAt>
+    >
+
+    return sqliteTable(name, buildColumns(sqliteColumns, options) as Columns, (table) =>
+      buildIndexes(name, table, sqliteIndex)
+    )
+  },
+  /** MySQL table with `json` data and `timestamp(3)` expiry. */
+  mysql<
+    TName extends string,
+    const TOptions extends SessionTableOptions<Record<string, MySqlColumnBuilderBase>> = {}
+  >(name: TName, options: TOptions = {} as TOptions) {
+    type Columns = SessionTableColumns<
+      TOptions,
+      ReturnType<typeof mysqlColumns.core>,
+      ReturnType<typeof mysqlColumns.data>,
+      ReturnType<typeof mysqlColumns.userId>,
+      ReturnType<typeof mysqlColumns.createdAt>
+    >
+
+    return mysqlTable(name, buildColumns(mysqlColumns, options) as Columns, (table) =>
+      buildIndexes(name, table, mysqlIndex)
+    )
+  },
+  /** Core column selectors of a `sessionTable` table, for the adapter's `columns` option. */
+  columns<TTable extends object>(table: TTable): SessionTableSelectors<TTable> {
+    const select = (key: string) => (target: TTable) =>
+      (target as Record<string, AnyColumn>)[key] as AnyColumn
+    const optional = (key: 'data' | 'userId' | 'createdAt') =>
+      key in table ? { [key]: select(key) } : {}
+
+    return {
+      id: select('id'),
+      expiresAt: select('expiresAt'),
+      meta: select('meta'),
+      version: select('version'),
+      ...optional('data'),
+      ...optional('userId'),
+      ...optional('createdAt')
+    } as SessionTableSelectors<TTable>
+  }
+}
@@ -1,19 +1,97 @@
-import { eq } from 'drizzle-orm'
+import { and, asc, count, eq, gt, is, isNull, lte, notInArray, or } from 'drizzle-orm'
 import type { AnyColumn } from 'drizzle-orm'
-import type { JsonObject, SessionStoreAdapter } from '../types.js'
+import { MySqlTable } from 'drizzle-orm/mysql-core'
+import { PgTable } from 'drizzle-orm/pg-core'
+import { SQLiteTable } from 'drizzle-orm/sqlite-core'
+import { SessionConflictError } from '../errors.js'
+import type {
+  JsonObject,
+  SessionMetadataField,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
 
 type DrizzleDatabase = {
   select: (...args: any[]) => any
   insert: (...args: any[]) => any
+  update: (...args: any[]) => any
   delete: (...args: any[]) => any
+  transaction?: (run: (tx: any) => any) => any
 }
 
+/** A query a multi-statement step waits on: `all` reads rows, `run` executes a write. */
+type StepQuery = { query: any; kind: 'all' | 'run' }
+
+/**
+ * Several statements written once for async and sync drivers: the step yields each query and
+ * receives its result, so sync SQLite drivers can run it without an `await`.
+ */
+type Step<TResult> = Generator<StepQuery, TResult, any>
+
+const all = (query: unknown): StepQuery => ({ query, kind: 'all' })
+
+const run = (query: unknown): StepQuery => ({ query, kind: 'run' })
+
+const runStep = async <TResult>(step: Step<TResult>): Promise<TResult> => {
+  let next = step.next()
+
+  while (!next.done) {
+    next = step.next(await next.value.query)
+  }
+
+  return next.value
+}
+
+const runStepSync = <TResult>(step: Step<TResult>): TResult => {
+  let next = step.next()
+
+  while (!next.done) {
+    next = step.next(next.value.query[next.value.kind]())
+  }
+
+  return next.value
+}
+
+/**
+ * `bun:sqlite` and `better-sqlite3` commit a Drizzle transaction as soon as its callback
+ * returns, so their transactions must run synchronously.
+ */
+const isSyncDriver = (db: DrizzleDatabase): boolean =>
+  (db as { resultKind?: unknown }).resultKind === 'sync'
+
 type SessionKey<TSession extends JsonObject> = Extract<keyof TSession, string>
 type DrizzleColumnValues<TSession extends JsonObject> = {
   [K in SessionKey<TSession>]: unknown
 }
+type SessionMetadata = Omit<StoredSession, 'data' | 'expiresAt'>
+type SessionRow = Record<string, unknown> & { expiresAt: unknown }
+type DataStrategy<TSession extends JsonObject> = {
+  select: Record<string, AnyColumn>
+  read: (row: Record<string, unknown>) => TSession
+  write: (data: TSession) => Record<string, unknown>
+  /**
+   * Column values for changed keys only; strategies without it fall back to full writes.
+   * `merged` is the whole session after the change, passed when `needsMerge` asks for it.
+   */
+  patch?: (
+    set: Partial<TSession>,
+    unset: Array<SessionKey<TSession>>,
+    merged?: TSession
+  ) => Record<string, unknown>
+  /** Whether `patch` needs the merged session, read from the store first. */
+  needsMerge?: (set: Partial<TSession>, unset: Array<SessionKey<TSession>>) => boolean
+}
 
-/** Typed mapping between session object keys and table columns. */
+const DEFAULT_BATCH_SIZE = 100
+
+/** SQL dialect of the session table, which decides the upsert syntax. */
+export type DrizzleDialect = 'pg' | 'mysql' | 'sqlite'
+
+/**
+ * Typed mapping between session object keys and table columns.
+ * Every key needs a column; in hybrid mode (with `columns.data`) a partial map is accepted.
+ */
 export type DrizzleSessionColumnMap<
   TTable extends object = Record<string, unknown>,
   TSession extends JsonObject = JsonObject
@@ -21,48 +99,99 @@ export type DrizzleSessionColumnMap<
   [K in SessionKey<TSession>]: (table: TTable) => AnyColumn
 }
 
-/** Options for the Drizzle session adapter. */
-export interface DrizzleSessionAdapterOptions<
-  TTable extends object = Record<string, unknown>,
-  TSession extends JsonObject = JsonObject
-> {
+/** Column selectors used by the Drizzle session adapter. */
+export interface DrizzleSessionColumns<TTable extends object = Record<string, unknown>> {
+  /** Session id column selector. */
+  id: (table: TTable) => AnyColumn
+  /** Session expiration column selector. */
+  expiresAt: (table: TTable) => AnyColumn
+  /**
+   * Serialized session data column selector.
+   * Use this mode when storing the full session in one column. Together with `dataColumns`
+   * it holds the keys without a column of their own.
+   */
+  data?: (table: TTable) => AnyColumn
+  /**
+   * Serialized session metadata column selector (flash values and other
+   * plugin-managed fields). Without it, only the metadata with a column of its own is
+   * persisted, and the plugin rejects features that need the rest.
+   */
+  meta?: (table: TTable) => AnyColumn
+  /** Session creation time column selector, used for absolute timeouts. */
+  createdAt?: (table: TTable) => AnyColumn
+  /** Integer version column selector, required for compare-and-set writes. */
+  version?: (table: TTable) => AnyColumn
+  /** Integer session data version column selector (otherwise kept in `columns.meta`). */
+  schemaVersion?: (table: TTable) => AnyColumn
+  /**
+   * Indexed user column selector for the per-user session index.
+   * Filled from `userKey` on every write.
+   */
+  userId?: (table: TTable) => AnyColumn
+}
+
+/** Options shared by the single-column, multi-column and hybrid data modes. */
+interface DrizzleSessionBaseOptions<TTable extends object, TSession extends JsonObject> {
   /** Drizzle database instance. */
   db: DrizzleDatabase
   /** Drizzle table schema that stores sessions. */
   table: TTable
+  /** SQL dialect of `table`. Detected from the table type by default. */
+  dialect?: DrizzleDialect
   /** Core columns used by the adapter. */
-  columns: {
-    /** Session id column selector. */
-    id: (table: TTable) => AnyColumn
-    /** Session expiration column selector. */
-    expiresAt: (table: TTable) => AnyColumn
-    /**
-     * Serialized session data column selector.
-     * Use this mode when storing the full session in one column.
-     */
-    data?: (table: TTable) => AnyColumn
-  }
-  /**
-   * Typed mapping of session keys to table columns.
-   * Use this mode when storing session fields across multiple columns.
-   */
-  dataColumns?: DrizzleSessionColumnMap<TTable, TSession>
+  columns: DrizzleSessionColumns<TTable>
   /** Time source used for expiration checks. */
   now?: () => number
+  /** Selects the user a session belongs to. Requires `columns.userId`. */
+  userKey?: SessionUserKey<TSession>
   /** Serializer used before writing `session.data` in single-column mode. */
   serializeData?: (data: TSession) => unknown
   /** Parser used after reading stored session data in single-column mode. */
   deserializeData?: (raw: unknown) => TSession
-  /** Serializer used before writing session fields in multi-column mode. */
+  /**
+   * Serializer used before writing the `dataColumns` fields.
+   * Patches and hybrid mode pass only some keys, so it must tolerate missing keys.
+   */
   serializeColumnsData?: (data: TSession) => DrizzleColumnValues<TSession>
-  /** Parser used after reading session fields in multi-column mode. */
+  /** Parser used after reading the `dataColumns` fields. */
   deserializeColumnsData?: (raw: DrizzleColumnValues<TSession>) => TSession
-  /** Serializer used before writing `expiresAt` (ms timestamp). */
+  /** Serializer used before writing session metadata. */
+  serializeMeta?: (meta: SessionMetadata) => unknown
+  /** Parser used after reading stored session metadata. */
+  deserializeMeta?: (raw: unknown) => SessionMetadata
+  /** Serializer used before writing `expiresAt` and `createdAt` (ms timestamps). */
   serializeExpiresAt?: (expiresAt: number) => unknown
-  /** Parser used after reading the stored expiration value. */
+  /** Parser used after reading the stored expiration and creation values. */
   deserializeExpiresAt?: (raw: unknown) => number
 }
 
+/** `columns.data` holds the session, or in hybrid mode the keys `dataColumns` leaves out. */
+type DrizzleSerializedDataOptions<TTable extends object, TSession extends JsonObject> = {
+  columns: { data: (table: TTable) => AnyColumn }
+  /** Typed mapping of the session keys that get a column of their own (hybrid mode). */
+  dataColumns?: Partial<DrizzleSessionColumnMap<TTable, TSession>>
+}
+
+/** Every session key is stored in a column of its own. */
+type DrizzleMappedDataOptions<TTable extends object, TSession extends JsonObject> = {
+  columns: { data?: undefined }
+  /**
+   * Typed mapping of session keys to table columns.
+   * Use this mode when storing session fields across multiple columns.
+   */
+  dataColumns: DrizzleSessionColumnMap<TTable, TSession>
+}
+
+/**
+ * Options for the Drizzle session adapter. Without `columns.data`, `dataColumns` must map every
+ * session key; with it, unmapped keys go to that column.
+ */
+export type DrizzleSessionAdapterOptions<
+  TTable extends object = Record<string, unknown>,
+  TSession extends JsonObject = JsonObject
+> = DrizzleSessionBaseOptions<TTable, TSession> &
+  (DrizzleSerializedDataOptions<TTable, TSession> | DrizzleMappedDataOptions<TTable, TSession>)
+
 const getColumnKey = <TTable extends object>(
   selector: (table: TTable) => AnyColumn
 ): string => {
@@ -87,6 +216,47 @@ const getColumnKey = <TTable extends object>(
   return resolvedKey
 }
 
+const detectDialect = (table: object): DrizzleDialect => {
+  if (is(table, PgTable)) {
+    return 'pg'
+  }
+
+  if (is(table, MySqlTable)) {
+    return 'mysql'
+  }
+
+  if (is(table, SQLiteTable)) {
+    return 'sqlite'
+  }
+
+  throw new Error('Unable to detect the Drizzle dialect of the session table. Pass `dialect`.')
+}
+
+const isJsonColumn = (column: AnyColumn | undefined): boolean => column?.dataType === 'json'
+
+/** Update values for an upsert; keys left `undefined` would keep the previous column value. */
+const toUpdateSet = (payload: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(payload).map(([key, value]) => [key, value === undefined ? null : value])
+  )
+
+const getAffectedRows = (result: unknown): number => {
+  // postgres-js returns a row list with `count`, mysql2 a `[ResultSetHeader, fields]` tuple.
+  if (typeof (result as { count?: unknown })?.count === 'number') {
+    return (result as { count: number }).count
+  }
+
+  const header = (Array.isArray(result) ? result[0] : result) as Record<string, unknown> | null
+
+  for (const key of ['changes', 'rowsAffected', 'rowCount', 'affectedRows']) {
+    if (typeof header?.[key] === 'number') {
+      return header[key] as number
+    }
+  }
+
+  throw new Error('Unable to read the affected row count from the Drizzle driver result.')
+}
+
 const toTimestamp = (value: unknown): number => {
   if (typeof value === 'number') {
     return value
@@ -111,16 +281,38 @@ const toTimestamp = (value: unknown): number => {
   throw new Error(`Unable to parse expiresAt value "${String(value)}".`)
 }
 
-/** Creates a Drizzle-backed session adapter. */
+/** Drizzle session adapter that can run its queries inside a caller's transaction. */
+export interface DrizzleSessionAdapter<TSession extends JsonObject = JsonObject>
+  extends SessionStoreAdapter<TSession> {
+  /**
+   * Returns an adapter that runs every query on `tx`, so session writes commit or roll back
+   * with the caller's other changes.
+   */
+  withTransaction(tx: DrizzleDatabase): SessionStoreAdapter<TSession>
+}
+
+/**
+ * Creates a Drizzle-backed session adapter.
+ *
+ * Writes are single upserts (`onConflictDoUpdate` for pg and sqlite, `onDuplicateKeyUpdate` for
+ * mysql). Operations that need several statements run in a transaction when the database
+ * supports one.
+ */
 export const createDrizzleSessionAdapter = <
   TTable extends object,
   TSession extends JsonObject = JsonObject
 >(
   options: DrizzleSessionAdapterOptions<TTable, TSession>
-): SessionStoreAdapter<TSession> => {
-  const { db, table, columns } = options
+): DrizzleSessionAdapter<TSession> => {
+  const { table, columns } = options
+  const dialect = options.dialect ?? detectDialect(table)
   const now = options.now ?? Date.now
-  const serializeData = options.serializeData ?? ((data: TSession) => JSON.stringify(data))
+  // JSON columns (jsonb, mysql json, sqlite text in json mode) serialize values themselves.
+  const dataIsJson = isJsonColumn(columns.data?.(table))
+  const metaIsJson = isJsonColumn(columns.meta?.(table))
+  const serializeData =
+    options.serializeData ??
+    ((data: TSession) => (dataIsJson ? data : JSON.stringify(data)))
   const deserializeData =
     options.deserializeData ??
     ((raw: unknown) => {
@@ -139,21 +331,127 @@ export const createDrizzleSessionAdapter = <
   const serializeExpiresAt =
     options.serializeExpiresAt ?? ((expiresAt: number) => new Date(expiresAt))
   const deserializeExpiresAt = options.deserializeExpiresAt ?? toTimestamp
+  const serializeMeta =
+    options.serializeMeta ??
+    ((meta: SessionMetadata) => (metaIsJson ? meta : JSON.stringify(meta)))
+  const deserializeMeta =
+    options.deserializeMeta ??
+    ((raw: unknown) => {
+      if (raw === null || raw === undefined || raw === '') {
+        return {}
+      }
+
+      if (typeof raw === 'string') {
+        return JSON.parse(raw) as SessionMetadata
+      }
+
+      return raw as SessionMetadata
+    })
   const idColumn = columns.id(table)
   const expiresAtColumn = columns.expiresAt(table)
   const idKey = getColumnKey(columns.id)
   const expiresAtKey = getColumnKey(columns.expiresAt)
+  const metaKey = columns.meta ? getColumnKey(columns.meta) : null
+  const userKey = options.userKey
+  const userIdColumn = columns.userId ? columns.userId(table) : null
+  const userIdKey = columns.userId ? getColumnKey(columns.userId) : null
+  const createdAtKey = columns.createdAt ? getColumnKey(columns.createdAt) : null
+  const versionColumn = columns.version ? columns.version(table) : null
+  const versionKey = columns.version ? getColumnKey(columns.version) : null
+  const schemaVersionKey = columns.schemaVersion ? getColumnKey(columns.schemaVersion) : null
+  const metaSelectors = {
+    ...(columns.meta ? { meta: columns.meta(table) } : {}),
+    ...(columns.createdAt ? { createdAt: columns.createdAt(table) } : {}),
+    ...(versionColumn ? { version: versionColumn } : {}),
+    ...(columns.schemaVersion ? { schemaVersion: columns.schemaVersion(table) } : {})
+  }
+
+  // Without a metadata column, only fields with a dedicated column survive a write.
+  const metadata: SessionMetadataField[] | null = metaKey
+    ? null
+    : [
+        ...(createdAtKey ? (['createdAt'] as const) : []),
+        ...(schemaVersionKey ? (['schemaVersion'] as const) : [])
+      ]
+
+  const readMeta = (row: Record<string, unknown>): SessionMetadata => {
+    const meta = metaKey ? deserializeMeta(row.meta) : {}
+
+    if (createdAtKey && row.createdAt !== null && row.createdAt !== undefined) {
+      meta.createdAt = deserializeExpiresAt(row.createdAt)
+    }
+
+    if (versionKey && row.version !== null && row.version !== undefined) {
+      meta.version = Number(row.version)
+    }
+
+    if (schemaVersionKey && row.schemaVersion !== null && row.schemaVersion !== undefined) {
+      meta.schemaVersion = Number(row.schemaVersion)
+    }
+
+    return meta
+  }
+
+  const writeMeta = (payload: Record<string, unknown>, session: SessionMetadata): void => {
+    const {
+      expiresAt: _expiresAt,
+      createdAt,
+      version,
+      schemaVersion,
+      ...meta
+    } = session as StoredSession
+
+    if (createdAtKey && createdAt !== undefined) {
+      payload[createdAtKey] = serializeExpiresAt(createdAt)
+    }
+
+    if (versionKey) {
+      payload[versionKey] = version ?? 0
+    }
+
+    if (schemaVersionKey) {
+      payload[schemaVersionKey] = schemaVersion ?? null
+    }
+
+    if (metaKey) {
+      payload[metaKey] = serializeMeta({
+        ...meta,
+        ...(createdAtKey ? {} : { createdAt }),
+        ...(versionKey ? {} : { version }),
+        ...(schemaVersionKey ? {} : { schemaVersion })
+      })
+    }
+  }
+
+  const writeUserId = (payload: Record<string, unknown>, data: TSession): void => {
+    if (userIdKey && userKey) {
+      payload[userIdKey] = userKey(data) ?? null
+    }
+  }
+
+  const requireUserIdColumn = (): AnyColumn => {
+    if (!userIdColumn || !userKey) {
+      throw new Error(
+        'The per-user session index requires both `columns.userId` and the `userKey` option.'
+      )
+    }
+
+    return userIdColumn
+  }
 
   const hasSerializedColumn = typeof columns.data === 'function'
   const hasDataColumns = Boolean(options.dataColumns)
 
-  if (hasSerializedColumn === hasDataColumns) {
+  if (!hasSerializedColumn && !hasDataColumns) {
     throw new Error(
-      'Configure exactly one Drizzle session data strategy: use either `columns.data` or `dataColumns`.'
+      'Configure a Drizzle session data strategy: `columns.data`, `dataColumns`, or both.'
     )
   }
 
-  if (hasDataColumns) {
+  /** Maps `dataColumns` keys to columns; with `overflow`, other keys go to that JSON column. */
+  const createColumnsStrategy = (
+    overflow?: (table: TTable) => AnyColumn
+  ): DataStrategy<TSession> => {
     const dataColumns = options.dataColumns as DrizzleSessionColumnMap<TTable, TSession>
     const dataColumnEntries = Object.entries(dataColumns) as Array<
       [SessionKey<TSession>, (table: TTable) => AnyColumn]
@@ -164,45 +462,41 @@ export const createDrizzleSessionAdapter = <
     const dataColumnKeys = Object.fromEntries(
       dataColumnEntries.map(([sessionKey, selector]) => [sessionKey, getColumnKey(selector)])
     ) as Record<SessionKey<TSession>, string>
+    const overflowKey = overflow ? getColumnKey(overflow) : null
+    const isMapped = (sessionKey: string): sessionKey is SessionKey<TSession> =>
+      Object.hasOwn(dataColumnKeys, sessionKey)
+    const overflowOf = (data: TSession): TSession =>
+      Object.fromEntries(
+        Object.entries(data).filter(([sessionKey]) => !isMapped(sessionKey))
+      ) as TSession
+    // Without an overflow column an unmapped key would be dropped silently.
+    const requireMapped = (data: Partial<TSession>): void => {
+      const unmapped = overflowKey ? undefined : Object.keys(data).find((key) => !isMapped(key))
+      if (unmapped !== undefined) {
+        throw new Error(
+          `Session key "${unmapped}" has no column in \`dataColumns\` and no \`columns.data\`.`
+        )
+      }
+    }
 
     return {
-      async get(id) {
-        const rows = (await db
-          .select({
-            ...dataColumnSelectors,
-            expiresAt: expiresAtColumn
-          })
-          .from(table)
-          .where(eq(idColumn, id))
-          .limit(1)) as Array<Record<string, unknown> & { expiresAt: unknown }>
-
-        const row = rows[0]
-        if (!row) {
-          return null
-        }
-
-        const expiresAt = deserializeExpiresAt(row.expiresAt)
-        if (expiresAt <= now()) {
-          await db.delete(table).where(eq(idColumn, id))
-          return null
-        }
-
+      select: {
+        ...dataColumnSelectors,
+        ...(overflow ? { data: overflow(table) } : {})
+      },
+      read(row) {
         const rawData = {} as DrizzleColumnValues<TSession>
         for (const [sessionKey] of dataColumnEntries) {
           rawData[sessionKey] = row[sessionKey]
         }
 
-        return {
-          data: deserializeColumnsData(rawData),
-          expiresAt
-        }
+        const mapped = deserializeColumnsData(rawData)
+        return overflowKey ? { ...deserializeData(row.data), ...mapped } : mapped
       },
-      async set(id, session) {
-        const encodedData = serializeColumnsData(session.data)
-        const payload: Record<string, unknown> = {
-          [idKey]: id,
-          [expiresAtKey]: serializeExpiresAt(session.expiresAt)
-        }
+      write(data) {
+        requireMapped(data)
+        const encodedData = serializeColumnsData(data)
+        const payload: Record<string, unknown> = {}
 
         for (const [sessionKey, columnKey] of Object.entries(dataColumnKeys) as Array<
           [SessionKey<TSession>, string]
@@ -210,64 +504,356 @@ export const createDrizzleSessionAdapter = <
           payload[columnKey] = encodedData[sessionKey]
         }
 
-        await db.delete(table).where(eq(idColumn, id))
-        await db.insert(table).values(payload)
+        if (overflowKey) {
+          payload[overflowKey] = serializeData(overflowOf(data))
+        }
+
+        return payload
       },
-      async delete(id) {
-        await db.delete(table).where(eq(idColumn, id))
+      needsMerge: (set, unset) =>
+        overflowKey !== null && [...Object.keys(set), ...unset].some((key) => !isMapped(key)),
+      patch(set, unset, merged) {
+        requireMapped(set)
+        const mappedSet = Object.fromEntries(
+          Object.entries(set).filter(([sessionKey]) => isMapped(sessionKey))
+        ) as Partial<TSession>
+        const encodedData = serializeColumnsData(mappedSet as TSession)
+        const payload: Record<string, unknown> = {}
+
+        for (const sessionKey of Object.keys(mappedSet) as Array<SessionKey<TSession>>) {
+          payload[dataColumnKeys[sessionKey]] = encodedData[sessionKey]
+        }
+
+        for (const sessionKey of unset.filter(isMapped)) {
+          payload[dataColumnKeys[sessionKey]] = null
+        }
+
+        if (overflowKey && merged) {
+          payload[overflowKey] = serializeData(overflowOf(merged))
+        }
+
+        return payload
       }
     }
   }
 
-  const dataColumnSelector = columns.data
-  if (!dataColumnSelector) {
-    throw new Error('`columns.data` is required when `dataColumns` is not provided.')
+  const createSerializedStrategy = (): DataStrategy<TSession> => {
+    const dataColumnSelector = columns.data
+    if (!dataColumnSelector) {
+      throw new Error('`columns.data` is required when `dataColumns` is not provided.')
+    }
+
+    const dataKey = getColumnKey(dataColumnSelector)
+
+    return {
+      select: { data: dataColumnSelector(table) },
+      read: (row) => deserializeData(row.data),
+      write: (data) => ({ [dataKey]: serializeData(data) })
+    }
   }
 
-  const dataColumn = dataColumnSelector(table)
+  const dataStrategy = hasDataColumns
+    ? createColumnsStrategy(columns.data)
+    : createSerializedStrategy()
+  const selection = {
+    ...dataStrategy.select,
+    ...metaSelectors,
+    expiresAt: expiresAtColumn
+  }
 
-  return {
-    async get(id) {
-      const rows = (await db
-        .select({
-          data: dataColumn,
-          expiresAt: expiresAtColumn
+  const decode = (row: SessionRow): StoredSession<TSession> => ({
+    ...readMeta(row),
+    data: dataStrategy.read(row),
+    expiresAt: deserializeExpiresAt(row.expiresAt)
+  })
+
+  const encode = (id: string, session: StoredSession<TSession>): Record<string, unknown> => {
+    const payload: Record<string, unknown> = {
+      [idKey]: id,
+      ...dataStrategy.write(session.data),
+      [expiresAtKey]: serializeExpiresAt(session.expiresAt)
+    }
+
+    writeMeta(payload, session)
+    writeUserId(payload, session.data)
+    return payload
+  }
+
+  const notExpired = () => gt(expiresAtColumn, serializeExpiresAt(now()))
+
+  const isExpired = () => lte(expiresAtColumn, serializeExpiresAt(now()))
+
+  const bind = (db: DrizzleDatabase, inTransaction: boolean): SessionStoreAdapter<TSession> => {
+    const atomically = async <TResult>(
+      step: (tx: DrizzleDatabase) => Step<TResult>
+    ): Promise<TResult> => {
+      // A caller's transaction already makes the steps atomic.
+      if (inTransaction || !db.transaction) {
+        return runStep(step(db))
+      }
+
+      return isSyncDriver(db)
+        ? db.transaction((tx) => runStepSync(step(tx)))
+        : db.transaction((tx) => runStep(step(tx)))
+    }
+
+    const upsert = (tx: DrizzleDatabase, payload: Record<string, unknown>) => {
+      const { [idKey]: _id, ...changes } = payload
+      const insert = tx.insert(table).values(payload)
+
+      return dialect === 'mysql'
+        ? insert.onDuplicateKeyUpdate({ set: toUpdateSet(changes) })
+        : insert.onConflictDoUpdate({ target: idColumn, set: toUpdateSet(changes) })
+    }
+
+    const insertIfAbsent = (tx: DrizzleDatabase, payload: Record<string, unknown>) =>
+      dialect === 'mysql'
+        ? tx.insert(table).ignore().values(payload)
+        : tx.insert(table).values(payload).onConflictDoNothing({ target: idColumn })
+
+    const listLive = function* (tx: DrizzleDatabase, userId: string): Step<string[]> {
+      const rows = (yield all(
+        tx
+          .select({
+            id: idColumn,
+            expiresAt: expiresAtColumn
+          })
+          .from(table)
+          .where(eq(requireUserIdColumn(), userId))
+      )) as Array<{ id: string; expiresAt: unknown }>
+
+      const current = now()
+      return rows
+        .filter((row) => deserializeExpiresAt(row.expiresAt) > current)
+        .map((row) => row.id)
+    }
+
+    const userIndex: Pick<
+      SessionStoreAdapter<TSession>,
+      'listSessionsForUser' | 'destroyAllForUser'
+    > = {
+      listSessionsForUser: (userId) => runStep(listLive(db, userId)),
+      destroyAllForUser(userId, destroyOptions = {}) {
+        const except =
+          typeof destroyOptions.except === 'string'
+            ? [destroyOptions.except]
+            : destroyOptions.except
+        const byUser = eq(requireUserIdColumn(), userId)
+
+        return atomically(function* (tx) {
+          const removed = (yield* listLive(tx, userId)).filter((id) => !except?.includes(id))
+
+          yield run(
+            tx
+              .delete(table)
+              .where(
+                except && except.length > 0 ? and(byUser, notInArray(idColumn, except)) : byUser
+              )
+          )
+
+          return removed.length
         })
-        .from(table)
-        .where(eq(idColumn, id))
-        .limit(1)) as Array<{
-        data: unknown
-        expiresAt: unknown
-      }>
+      }
+    }
+
+    const compareAndSet = function* (
+      tx: DrizzleDatabase,
+      id: string,
+      payload: Record<string, unknown>,
+      expectedVersion: number
+    ): Step<void> {
+      if (!versionColumn) {
+        throw new Error('Compare-and-set writes require `columns.version`.')
+      }
+
+      const { [idKey]: _id, ...changes } = payload
+      const matchesVersion =
+        expectedVersion === 0
+          ? or(isNull(versionColumn), eq(versionColumn, 0))
+          : eq(versionColumn, expectedVersion)
+
+      const result: unknown = yield run(
+        tx
+          .update(table)
+          .set(toUpdateSet(changes))
+          .where(and(eq(idColumn, id), matchesVersion, notExpired()))
+      )
+
+      if (getAffectedRows(result) > 0) {
+        return
+      }
+
+      if (expectedVersion !== 0) {
+        throw new SessionConflictError(id, expectedVersion)
+      }
+
+      // A missing or expired session counts as version 0. The primary key decides between
+      // concurrent creators: only one insert can succeed.
+      yield run(tx.delete(table).where(and(eq(idColumn, id), isExpired())))
+      const inserted: unknown = yield run(insertIfAbsent(tx, payload))
+
+      if (getAffectedRows(inserted) === 0) {
+        throw new SessionConflictError(id, expectedVersion)
+      }
+    }
+
+    const read = function* (tx: DrizzleDatabase, id: string): Step<StoredSession<TSession> | null> {
+      const rows = (yield all(
+        tx.select(selection).from(table).where(eq(idColumn, id)).limit(1)
+      )) as SessionRow[]
 
       const row = rows[0]
       if (!row) {
         return null
       }
 
-      const expiresAt = deserializeExpiresAt(row.expiresAt)
-      if (expiresAt <= now()) {
-        await db.delete(table).where(eq(idColumn, id))
+      const stored = decode(row)
+      if (stored.expiresAt <= now()) {
+        yield run(tx.delete(table).where(eq(idColumn, id)))
         return null
       }
 
-      return {
-        data: deserializeData(row.data),
-        expiresAt
+      return stored
+    }
+
+    const patchData = dataStrategy.patch
+    const patch: SessionStoreAdapter<TSession>['patch'] = async (id, changes) => {
+      const { set, unset, ...meta } = changes
+      const update = function* (tx: DrizzleDatabase, merged?: TSession): Step<boolean> {
+        const payload: Record<string, unknown> = {
+          ...patchData!(set, unset, merged),
+          [expiresAtKey]: serializeExpiresAt(meta.expiresAt)
+        }
+
+        writeMeta(payload, meta)
+        if (merged) {
+          writeUserId(payload, merged)
+        }
+
+        const result: unknown = yield run(
+          tx
+            .update(table)
+            .set(payload)
+            .where(and(eq(idColumn, id), notExpired()))
+        )
+
+        return getAffectedRows(result) > 0
+      }
+
+      if (!(userIdKey && userKey) && !dataStrategy.needsMerge?.(set, unset)) {
+        return runStep(update(db))
+      }
+
+      // The user column and the JSON overflow depend on the whole session, so they are
+      // recomputed from the merged data.
+      return atomically(function* (tx) {
+        const existing = yield* read(tx, id)
+        if (!existing) {
+          return false
+        }
+
+        const data = { ...existing.data, ...set }
+        for (const sessionKey of unset) {
+          delete data[sessionKey]
+        }
+
+        return yield* update(tx, data)
+      })
+    }
+
+    return {
+      ...(metadata ? { metadata } : {}),
+      ...(versionColumn ? {} : { compareAndSet: false }),
+      ...userIndex,
+      ...(patchData ? { patch } : {}),
+      get: (id) => runStep(read(db, id)),
+      async touch(id, expiresAt) {
+        const result = await db
+          .update(table)
+          .set({ [expiresAtKey]: serializeExpiresAt(expiresAt) })
+          .where(and(eq(idColumn, id), notExpired()))
+
+        return getAffectedRows(result) > 0
+      },
+      async set(id, session, setOptions = {}) {
+        const payload = encode(id, session)
+        const { expectedVersion } = setOptions
+
+        if (expectedVersion !== undefined) {
+          await atomically((tx) => compareAndSet(tx, id, payload, expectedVersion))
+          return
+        }
+
+        await upsert(db, payload)
+      },
+      async delete(id) {
+        await db.delete(table).where(eq(idColumn, id))
+      },
+      async count() {
+        const rows = (await db
+          .select({ value: count() })
+          .from(table)
+          .where(notExpired())) as Array<{ value: number | string }>
+
+        return Number(rows[0]?.value ?? 0)
+      },
+      pruneExpired() {
+        return atomically(function* (tx) {
+          const expired = isExpired()
+          const rows = (yield all(
+            tx.select({ value: count() }).from(table).where(expired)
+          )) as Array<{ value: number | string }>
+
+          yield run(tx.delete(table).where(expired))
+          return Number(rows[0]?.value ?? 0)
+        })
+      },
+      async ids() {
+        const rows = (await db
+          .select({ id: idColumn })
+          .from(table)
+          .where(notExpired())) as Array<{ id: string }>
+
+        return rows.map((row) => row.id)
+      },
+      async *entries(entriesOptions = {}) {
+        const batchSize = entriesOptions.batchSize ?? DEFAULT_BATCH_SIZE
+        let lastId: string | null = null
+
+        while (true) {
+          const rows = (await db
+            .select({ ...selection, id: idColumn })
+            .from(table)
+            .where(lastId === null ? notExpired() : and(notExpired(), gt(idColumn, lastId)))
+            .orderBy(asc(idColumn))
+            .limit(batchSize)) as Array<SessionRow & { id: string }>
+
+          for (const row of rows) {
+            yield [row.id, decode(row)] as [string, StoredSession<TSession>]
+          }
+
+          if (rows.length < batchSize) {
+            return
+          }
+
+          lastId = rows[rows.length - 1]!.id
+        }
+      }
+    }
+  }
+
+  return {
+    ...bind(options.db, false),
+    withTransaction(tx) {
+      // The caller's synchronous transaction would commit before any awaited query runs.
+      if (isSyncDriver(tx)) {
+        throw new Error(
+          'Synchronous SQLite transactions cannot include session writes. Write the session ' +
+            'after the transaction, or use an async driver.'
+        )
       }
-    },
-    async set(id, session) {
-      const payload = {
-        [idKey]: id,
-        [getColumnKey(dataColumnSelector)]: serializeData(session.data),
-        [expiresAtKey]: serializeExpiresAt(session.expiresAt)
-      } as Record<string, unknown>
-
-      await db.delete(table).where(eq(idColumn, id))
-      await db.insert(table).values(payload)
-    },
-    async delete(id) {
-      await db.delete(table).where(eq(idColumn, id))
+
+      return bind(tx, true)
     }
   }
 }
@@ -0,0 +1,97 @@
+import { createKeyring, type EncryptionKey, type KeyringSealed } from '../crypto.js'
+import type { JsonObject, SessionStoreAdapter, StoredSession } from '../types.js'
+
+/** Session data as seen by the wrapped adapter. */
+export type EncryptedSessionData = KeyringSealed & JsonObject
+
+/** Options for `withEncryption`. */
+export interface EncryptionOptions {
+  /**
+   * Encryption keys ordered newest first. Writes always use `keys[0]`; older keys stay
+   * readable until every session has been written again.
+   */
+  keys: EncryptionKey[]
+}
+
+const isSealed = (data: JsonObject): data is EncryptedSessionData =>
+  typeof data.keyId === 'string' && typeof data.ciphertext === 'string'
+
+/**
+ * Wraps an adapter so `StoredSession.data` and its metadata are stored encrypted with
+ * AES-256-GCM. Only `expiresAt` and `version` stay readable, since the wrapped adapter needs
+ * them for expiry and compare-and-set.
+ *
+ * Ciphertexts are bound to their session id and carry the id of the key that sealed them.
+ * Data that fails to decrypt is treated as a missing session. The per-user index and
+ * `patch` are not forwarded because the wrapped adapter only sees ciphertext.
+ */
+export const withEncryption = <TSession extends JsonObject = JsonObject>(
+  adapter: SessionStoreAdapter,
+  options: EncryptionOptions
+): SessionStoreAdapter<TSession> => {
+  const keyring = createKeyring(options.keys)
+
+  const decrypt = async (
+    id: string,
+    stored: StoredSession
+  ): Promise<StoredSession<TSession> | null> => {
+    if (!isSealed(stored.data)) {
+      return null
+    }
+
+    const plaintext = await keyring.open(stored.data, id)
+
+    if (plaintext === null) {
+      return null
+    }
+
+    const sealed = JSON.parse(plaintext) as Omit<StoredSession<TSession>, 'expiresAt' | 'version'>
+    return {
+      ...sealed,
+      expiresAt: stored.expiresAt,
+      ...(stored.version === undefined ? {} : { version: stored.version })
+    }
+  }
+
+  const encrypt = async (
+    id: string,
+    { expiresAt, version, ...sealed }: StoredSession<TSession>
+  ): Promise<StoredSession<EncryptedSessionData>> => ({
+    data: { ...(await keyring.seal(JSON.stringify(sealed), id)) },
+    expiresAt,
+    ...(version === undefined ? {} : { version })
+  })
+
+  const entries = adapter.entries?.bind(adapter)
+
+  return {
+    // Metadata travels inside the ciphertext, so every field survives any wrapped adapter.
+    ...(adapter.compareAndSet === false ? { compareAndSet: false } : {}),
+    async get(id) {
+      const stored = await adapter.get(id)
+      return stored ? decrypt(id, stored) : null
+    },
+    async set(id, session, setOptions) {
+      await adapter.set(id, await encrypt(id, session), setOptions)
+    },
+    async delete(id) {
+      await adapter.delete(id)
+    },
+    ...(adapter.touch ? { touch: adapter.touch.bind(adapter) } : {}),
+    ...(adapter.count ? { count: adapter.count.bind(adapter) } : {}),
+    ...(adapter.ids ? { ids: adapter.ids.bind(adapter) } : {}),
+    ...(adapter.pruneExpired ? { pruneExpired: adapter.pruneExpired.bind(adapter) } : {}),
+    ...(entries
+      ? {
+          async *entries(entriesOptions) {
+            for await (const [id, stored] of entries(entriesOptions)) {
+              const decrypted = await decrypt(id, stored)
+              if (decrypted) {
+                yield [id, decrypted] as [string, StoredSession<TSession>]
+              }
+            }
+          }
+        }
+      : {})
+  }
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, open, readFile, rename, rm, stat, utimes } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { setTimeout as sleep } from 'node:timers/promises'
+
+/** Default time in milliseconds to wait for the store lock. */
+export const DEFAULT_LOCK_TIMEOUT = 10_000
+
+/** A lock file older than this is left over from a crashed process and may be taken over. */
+const STALE_LOCK_AGE = 30_000
+
+/** Holders touch their lock this often, so long tasks never look stale. */
+const LOCK_HEARTBEAT_INTERVAL = STALE_LOCK_AGE / 3
+
+const errorCode = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'code' in error
+    ? (error as { code?: string }).code
+    : undefined
+
+export const isMissingFileError = (error: unknown): boolean => errorCode(error) === 'ENOENT'
+
+/**
+ * Writes `content` to a temporary file next to `path`, flushes it and renames it over `path`.
+ * Readers and crashes only ever see the old or the new content, never a partial write.
+ */
+export const writeFileAtomic = async (path: string, content: string): Promise<void> => {
+  const temporaryPath = `${path}.${randomUUID()}.tmp`
+  await mkdir(dirname(path), { recursive: true })
+
+  try {
+    const handle = await open(temporaryPath, 'w')
+    try {
+      await handle.writeFile(content, 'utf8')
+      await handle.sync()
+    } finally {
+      await handle.close()
+    }
+
+    await rename(temporaryPath, path)
+  } catch (error) {
+    await rm(temporaryPath, { force: true })
+    throw error
+  }
+}
+
+const readLockToken = (path: string): Promise<string | null> =>
+  readFile(path, 'utf8').catch((error: unknown) => {
+    if (isMissingFileError(error)) {
+      return null
+    }
+
+    throw error
+  })
+
+const isStale = (stats: { mtimeMs: number } | null): boolean =>
+  stats !== null && Date.now() - stats.mtimeMs > STALE_LOCK_AGE
+
+/** Token of the lock at `lockPath` when it is stale, otherwise `null`. */
+const readStaleToken = async (lockPath: string): Promise<string | null> => {
+  // The token is read before the age, so a lock replaced in between is never judged stale.
+  const token = await readLockToken(lockPath)
+  const lock = await stat(lockPath).catch(() => null)
+  return token !== null && isStale(lock) ? token : null
+}
+
+/**
+ * Deletes a stale lock. A `wx` guard file admits one contender at a time, which checks again
+ * under the guard that the lock is still the stale one, so a lock another contender has taken
+ * over in the meantime is never deleted. Returns whether the lock was removed.
+ */
+const takeOverStaleLock = async (lockPath: string, staleToken: string): Promise<boolean> => {
+  const guardPath = `${lockPath}.takeover`
+
+  try {
+    await (await open(guardPath, 'wx')).close()
+  } catch (error) {
+    if (errorCode(error) !== 'EEXIST') {
+      throw error
+    }
+
+    // Another contender is taking over, unless its guard was left behind by a crash.
+    if (isStale(await stat(guardPath).catch(() => null))) {
+      await rm(guardPath, { force: true })
+    }
+
+    return false
+  }
+
+  try {
+    if ((await readStaleToken(lockPath)) !== staleToken) {
+      return false
+    }
+
+    await rm(lockPath, { force: true })
+    return true
+  } finally {
+    await rm(guardPath, { force: true })
+  }
+}
+
+/** Creates the lock file and returns the token written into it. */
+const acquireLock = async (lockPath: string, timeout: number): Promise<string> => {
+  const deadline = Date.now() + timeout
+  const token = randomUUID()
+  await mkdir(dirname(lockPath), { recursive: true })
+
+  for (let delay = 2; ; delay = Math.min(delay * 2, 50)) {
+    try {
+      const handle = await open(lockPath, 'wx')
+      try {
+        await handle.writeFile(token, 'utf8')
+      } finally {
+        await handle.close()
+      }
+
+      return token
+    } catch (error) {
+      if (errorCode(error) !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    const staleToken = await readStaleToken(lockPath)
+    if (staleToken !== null && (await takeOverStaleLock(lockPath, staleToken))) {
+      continue
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the session store lock at ${lockPath}.`)
+    }
+
+    await sleep(delay)
+  }
+}
+
+/**
+ * Runs `task` while holding an exclusive lock file, so several processes can share one store.
+ * The lock is created with `O_EXCL`, touched while the task runs and removed when it settles,
+ * unless another process has taken it over in the meantime.
+ */
+export const withFileLock = async <TResult>(
+  lockPath: string,
+  timeout: number,
+  task: () => Promise<TResult>
+): Promise<TResult> => {
+  const token = await acquireLock(lockPath, timeout)
+  const heartbeat = setInterval(() => {
+    const now = new Date()
+    utimes(lockPath, now, now).catch(() => undefined)
+  }, LOCK_HEARTBEAT_INTERVAL)
+  heartbeat.unref?.()
+
+  try {
+    return await task()
+  } finally {
+    clearInterval(heartbeat)
+
+    if ((await readLockToken(lockPath)) === token) {
+      await rm(lockPath, { force: true })
+    }
+  }
+}
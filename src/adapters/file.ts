@@ -1,9 +1,26 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises'
-import { dirname } from 'node:path'
-import type { JsonObject, SessionStoreAdapter, StoredSession } from '../types.js'
+import { readFile } from 'node:fs/promises'
+import { SessionConflictError } from '../errors.js'
+import type {
+  DestroyUserSessionsOptions,
+  JsonObject,
+  SessionSetOptions,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
+import {
+  DEFAULT_LOCK_TIMEOUT,
+  isMissingFileError,
+  withFileLock,
+  writeFileAtomic
+} from './file-system.js'
+import {
+  ShardedFileSessionAdapter,
+  type ShardedFileSessionAdapterOptions
+} from './sharded-file.js'
 
 /** Options for the JSON file session adapter. */
-export interface FileSessionAdapterOptions {
+export interface FileSessionAdapterOptions<TSession extends JsonObject = JsonObject> {
   /** Absolute or relative path to the JSON backing file. */
   filePath: string
   /** Time source used for expiration checks. */
@@ -12,9 +29,18 @@ export interface FileSessionAdapterOptions {
   pretty?: boolean
   /** Deep clone strategy for stored payloads. */
   clone?: <TValue>(value: TValue) => TValue
+  /** Selects the user a session belongs to. Enables the per-user session index. */
+  userKey?: SessionUserKey<TSession>
+  /** Milliseconds to wait for a lock held by another process. Defaults to 10 seconds. */
+  lockTimeout?: number
 }
 
 type SessionDictionary<TSession extends JsonObject> = Record<string, StoredSession<TSession>>
+type UserIndex = Record<string, string[]>
+type SessionFile<TSession extends JsonObject> = {
+  sessions: SessionDictionary<TSession>
+  users: UserIndex
+}
 
 const defaultClone = <TValue>(value: TValue): TValue => {
   if (typeof structuredClone === 'function') {
@@ -24,36 +50,61 @@ const defaultClone = <TValue>(value: TValue): TValue => {
   return JSON.parse(JSON.stringify(value)) as TValue
 }
 
-const isMissingFileError = (error: unknown): boolean =>
-  typeof error === 'object' &&
-  error !== null &&
-  'code' in error &&
-  (error as { code?: string }).code === 'ENOENT'
+const isSessionFile = <TSession extends JsonObject>(
+  value: SessionFile<TSession> | SessionDictionary<TSession>
+): value is SessionFile<TSession> =>
+  typeof value.sessions === 'object' &&
+  value.sessions !== null &&
+  !('expiresAt' in value.sessions) &&
+  typeof value.users === 'object' &&
+  value.users !== null &&
+  !('expiresAt' in value.users)
+
+const unindexUser = (users: UserIndex, userId: string, id: string): void => {
+  const ids = users[userId]?.filter((existing) => existing !== id)
+
+  if (ids && ids.length > 0) {
+    users[userId] = ids
+  } else {
+    delete users[userId]
+  }
+}
 
 const removeExpired = <TSession extends JsonObject>(
-  sessions: SessionDictionary<TSession>,
-  now: number
-): { next: SessionDictionary<TSession>; changed: boolean } => {
-  const next: SessionDictionary<TSession> = {}
+  store: SessionFile<TSession>,
+  now: number,
+  userKey?: SessionUserKey<TSession>
+): { next: SessionFile<TSession>; changed: boolean } => {
+  const next: SessionFile<TSession> = { sessions: {}, users: { ...store.users } }
   let changed = false
 
-  for (const [id, stored] of Object.entries(sessions)) {
+  for (const [id, stored] of Object.entries(store.sessions)) {
     if (stored.expiresAt <= now) {
+      const userId = userKey?.(stored.data)
+      if (userId) {
+        unindexUser(next.users, userId, id)
+      }
+
       changed = true
       continue
     }
 
-    next[id] = stored
+    next.sessions[id] = stored
   }
 
-  if (!changed && Object.keys(next).length !== Object.keys(sessions).length) {
+  if (!changed && Object.keys(next.sessions).length !== Object.keys(store.sessions).length) {
     changed = true
   }
 
   return { next, changed }
 }
 
-/** Session adapter that persists sessions to a JSON file. */
+/**
+ * Session adapter that persists sessions to a JSON file.
+ *
+ * Every operation holds a lock file next to the store, and writes replace the file atomically,
+ * so several processes can share it and a crash never leaves it half written.
+ */
 export class FileSessionAdapter<TSession extends JsonObject = JsonObject>
   implements SessionStoreAdapter<TSession>
 {
@@ -61,18 +112,23 @@ export class FileSessionAdapter<TSession extends JsonObject = JsonObject>
   private readonly now: () => number
   private readonly pretty: boolean
   private readonly clone: <TValue>(value: TValue) => TValue
+  private readonly userKey?: SessionUserKey<TSession>
+  private readonly lockTimeout: number
   private operationQueue: Promise<void> = Promise.resolve()
 
   /** Creates a file-backed adapter instance. */
-  constructor(options: FileSessionAdapterOptions) {
+  constructor(options: FileSessionAdapterOptions<TSession>) {
     this.filePath = options.filePath
     this.now = options.now ?? Date.now
     this.pretty = options.pretty ?? false
     this.clone = options.clone ?? defaultClone
+    this.userKey = options.userKey
+    this.lockTimeout = options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT
   }
 
   private enqueue<TResult>(task: () => Promise<TResult>): Promise<TResult> {
-    const run = this.operationQueue.then(task, task)
+    const locked = () => withFileLock(`${this.filePath}.lock`, this.lockTimeout, task)
+    const run = this.operationQueue.then(locked, locked)
     this.operationQueue = run.then(
       () => undefined,
       () => undefined
@@ -80,36 +136,89 @@ export class FileSessionAdapter<TSession extends JsonObject = JsonObject>
     return run
   }
 
-  private async readStore(): Promise<SessionDictionary<TSession>> {
+  private async readStore(): Promise<SessionFile<TSession>> {
     try {
       const payload = await readFile(this.filePath, 'utf8')
       if (!payload.trim()) {
-        return {}
+        return { sessions: {}, users: {} }
+      }
+
+      const parsed = JSON.parse(payload) as SessionFile<TSession> | SessionDictionary<TSession>
+      if (isSessionFile(parsed)) {
+        return parsed
       }
 
-      return JSON.parse(payload) as SessionDictionary<TSession>
+      // Files written before the user index existed hold the session dictionary directly.
+      return this.buildIndex(parsed)
     } catch (error) {
       if (!isMissingFileError(error)) {
         throw error
       }
 
-      await mkdir(dirname(this.filePath), { recursive: true })
-      await writeFile(this.filePath, '{}', 'utf8')
-      return {}
+      await writeFileAtomic(this.filePath, '{"sessions":{},"users":{}}')
+      return { sessions: {}, users: {} }
+    }
+  }
+
+  private buildIndex(sessions: SessionDictionary<TSession>): SessionFile<TSession> {
+    const store: SessionFile<TSession> = { sessions, users: {} }
+
+    for (const [id, stored] of Object.entries(sessions)) {
+      this.indexUser(store, id, stored)
+    }
+
+    return store
+  }
+
+  private indexUser(
+    store: SessionFile<TSession>,
+    id: string,
+    stored: StoredSession<TSession>
+  ): void {
+    const userId = this.userKey?.(stored.data)
+    if (userId) {
+      store.users[userId] = [...(store.users[userId] ?? []), id]
     }
   }
 
-  private async writeStore(store: SessionDictionary<TSession>): Promise<void> {
-    await mkdir(dirname(this.filePath), { recursive: true })
+  private unindex(store: SessionFile<TSession>, id: string): void {
+    const existing = store.sessions[id]
+    const userId = existing ? this.userKey?.(existing.data) : null
+
+    if (userId) {
+      unindexUser(store.users, userId, id)
+    }
+  }
+
+  private requireUserKey(): void {
+    if (!this.userKey) {
+      throw new Error('The per-user session index requires the `userKey` option.')
+    }
+  }
+
+  private async writeStore(store: SessionFile<TSession>): Promise<void> {
     const content = this.pretty ? JSON.stringify(store, null, 2) : JSON.stringify(store)
-    await writeFile(this.filePath, content, 'utf8')
+    await writeFileAtomic(this.filePath, content)
+  }
+
+  private async snapshot(): Promise<SessionFile<TSession>> {
+    return this.enqueue(async () => {
+      const store = await this.readStore()
+      const { next, changed } = removeExpired(store, this.now(), this.userKey)
+
+      if (changed) {
+        await this.writeStore(next)
+      }
+
+      return next
+    })
   }
 
   async get(id: string): Promise<StoredSession<TSession> | null> {
     return this.enqueue(async () => {
       const store = await this.readStore()
-      const { next, changed } = removeExpired(store, this.now())
-      const existing = next[id]
+      const { next, changed } = removeExpired(store, this.now(), this.userKey)
+      const existing = next.sessions[id]
 
       if (changed) {
         await this.writeStore(next)
@@ -119,11 +228,23 @@ export class FileSessionAdapter<TSession extends JsonObject = JsonObject>
     })
   }
 
-  async set(id: string, session: StoredSession<TSession>): Promise<void> {
+  async set(
+    id: string,
+    session: StoredSession<TSession>,
+    options: SessionSetOptions = {}
+  ): Promise<void> {
     return this.enqueue(async () => {
       const store = await this.readStore()
-      const { next } = removeExpired(store, this.now())
-      next[id] = this.clone(session)
+      const { next } = removeExpired(store, this.now(), this.userKey)
+      const { expectedVersion } = options
+
+      if (expectedVersion !== undefined && (next.sessions[id]?.version ?? 0) !== expectedVersion) {
+        throw new SessionConflictError(id, expectedVersion)
+      }
+
+      this.unindex(next, id)
+      next.sessions[id] = this.clone(session)
+      this.indexUser(next, id, session)
       await this.writeStore(next)
     })
   }
@@ -131,14 +252,80 @@ export class FileSessionAdapter<TSession extends JsonObject = JsonObject>
   async delete(id: string): Promise<void> {
     return this.enqueue(async () => {
       const store = await this.readStore()
-      const { next } = removeExpired(store, this.now())
-      delete next[id]
+      const { next } = removeExpired(store, this.now(), this.userKey)
+      this.unindex(next, id)
+      delete next.sessions[id]
       await this.writeStore(next)
     })
   }
+
+  async listSessionsForUser(userId: string): Promise<string[]> {
+    this.requireUserKey()
+    const store = await this.snapshot()
+
+    return [...(store.users[userId] ?? [])]
+  }
+
+  async destroyAllForUser(
+    userId: string,
+    options: DestroyUserSessionsOptions = {}
+  ): Promise<number> {
+    this.requireUserKey()
+    const except = new Set(typeof options.except === 'string' ? [options.except] : options.except)
+
+    return this.enqueue(async () => {
+      const store = await this.readStore()
+      const { next } = removeExpired(store, this.now(), this.userKey)
+      let removed = 0
+
+      for (const id of next.users[userId] ?? []) {
+        if (!except.has(id)) {
+          this.unindex(next, id)
+          delete next.sessions[id]
+          removed += 1
+        }
+      }
+
+      await this.writeStore(next)
+      return removed
+    })
+  }
+
+  async pruneExpired(): Promise<number> {
+    return this.enqueue(async () => {
+      const store = await this.readStore()
+      const { next, changed } = removeExpired(store, this.now(), this.userKey)
+
+      if (changed) {
+        await this.writeStore(next)
+      }
+
+      return Object.keys(store.sessions).length - Object.keys(next.sessions).length
+    })
+  }
+
+  async count(): Promise<number> {
+    return (await this.ids()).length
+  }
+
+  async ids(): Promise<string[]> {
+    return Object.keys((await this.snapshot()).sessions)
+  }
+
+  async *entries(): AsyncIterable<[string, StoredSession<TSession>]> {
+    for (const [id, stored] of Object.entries((await this.snapshot()).sessions)) {
+      yield [id, this.clone(stored)]
+    }
+  }
 }
 
-/** Creates a JSON file-backed session adapter. */
+/**
+ * Creates a file-backed session adapter: a single JSON file for `filePath`, or one file per
+ * session for `directory`.
+ */
 export const createFileSessionAdapter = <TSession extends JsonObject = JsonObject>(
-  options: FileSessionAdapterOptions
-): SessionStoreAdapter<TSession> => new FileSessionAdapter<TSession>(options)
+  options: FileSessionAdapterOptions<TSession> | ShardedFileSessionAdapterOptions<TSession>
+): SessionStoreAdapter<TSession> =>
+  'directory' in options
+    ? new ShardedFileSessionAdapter<TSession>(options)
+    : new FileSessionAdapter<TSession>(options)
@@ -1,16 +1,43 @@
 export {
   createDrizzleSessionAdapter,
+  type DrizzleDialect,
+  type DrizzleSessionAdapter,
   type DrizzleSessionAdapterOptions,
-  type DrizzleSessionColumnMap
+  type DrizzleSessionColumnMap,
+  type DrizzleSessionColumns
 } from './drizzle.js'
+export { sessionTable, type SessionTableOptions } from './drizzle-schema.js'
+export {
+  type EncryptedSessionData,
+  type EncryptionOptions,
+  withEncryption
+} from './encryption.js'
 export {
   createFileSessionAdapter,
   FileSessionAdapter,
   type FileSessionAdapterOptions
 } from './file.js'
-export { createMemorySessionAdapter, type MemorySessionAdapterOptions } from './memory.js'
 export {
+  ShardedFileSessionAdapter,
+  type ShardedFileSessionAdapterOptions
+} from './sharded-file.js'
+export {
+  createMemorySessionAdapter,
+  type MemorySessionAdapter,
+  type MemorySessionAdapterOptions,
+  type MemorySessionStats
+} from './memory.js'
+export {
+  createRedisInvalidationBus,
   createRedisSessionAdapter,
+  type RedisInvalidationBusOptions,
   type RedisSessionAdapterOptions,
   type RedisSessionClient
 } from './redis.js'
+export { createSqliteSessionAdapter, type SqliteSessionAdapterOptions } from './sqlite.js'
+export {
+  createLocalInvalidationBus,
+  createTieredSessionAdapter,
+  type TieredSessionAdapter,
+  type TieredSessionAdapterOptions
+} from './tiered.js'
@@ -1,11 +1,51 @@
-import type { JsonObject, SessionStoreAdapter, StoredSession } from '../types.js'
+import { SessionConflictError } from '../errors.js'
+import type {
+  JsonObject,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
 
 /** Options for the in-memory session adapter. */
-export interface MemorySessionAdapterOptions {
+export interface MemorySessionAdapterOptions<TSession extends JsonObject = JsonObject> {
   /** Time source used for expiration checks. */
   now?: () => number
   /** Deep clone strategy for stored payloads. */
   clone?: <TValue>(value: TValue) => TValue
+  /** Selects the user a session belongs to. Enables the per-user session index. */
+  userKey?: SessionUserKey<TSession>
+  /** Maximum number of stored sessions. The least recently used ones are evicted first. */
+  maxEntries?: number
+  /**
+   * Maximum total size of stored sessions in bytes, measured as serialized JSON.
+   * The least recently used sessions are evicted first.
+   */
+  maxBytes?: number
+  /** Remove expired sessions every `sweepInterval` milliseconds. Disabled by default. */
+  sweepInterval?: number
+}
+
+/** Counters reported by `MemorySessionAdapter.stats()`. */
+export interface MemorySessionStats {
+  /** Reads that found a live session. */
+  hits: number
+  /** Reads that found nothing or an expired session. */
+  misses: number
+  /** Sessions removed to stay within `maxEntries` or `maxBytes`. */
+  evictions: number
+  /** Number of stored sessions, including expired ones not yet swept. */
+  size: number
+  /** Serialized size of stored sessions in bytes. */
+  bytes: number
+}
+
+/** In-memory session adapter with usage statistics. */
+export interface MemorySessionAdapter<TSession extends JsonObject = JsonObject>
+  extends SessionStoreAdapter<TSession> {
+  /** Current cache counters. */
+  stats(): MemorySessionStats
+  /** Stop the expiry sweep timer. */
+  close(): void
 }
 
 const defaultClone = <TValue>(value: TValue): TValue => {
@@ -16,33 +56,257 @@ const defaultClone = <TValue>(value: TValue): TValue => {
   return JSON.parse(JSON.stringify(value)) as TValue
 }
 
-/** Creates a process-local in-memory session adapter. */
+const encoder = new TextEncoder()
+
+/**
+ * Creates a process-local in-memory session adapter.
+ *
+ * Sessions are kept in least-recently-used order, so `maxEntries` and `maxBytes` evict the
+ * sessions that were read or written longest ago.
+ */
 export const createMemorySessionAdapter = <TSession extends JsonObject = JsonObject>(
-  options: MemorySessionAdapterOptions = {}
-): SessionStoreAdapter<TSession> => {
+  options: MemorySessionAdapterOptions<TSession> = {}
+): MemorySessionAdapter<TSession> => {
   const now = options.now ?? Date.now
   const clone = options.clone ?? defaultClone
+  const userKey = options.userKey
+  const { maxEntries, maxBytes, sweepInterval } = options
   const sessions = new Map<string, StoredSession<TSession>>()
+  const sizes = new Map<string, number>()
+  const users = new Map<string, Set<string>>()
+  const counters = { hits: 0, misses: 0, evictions: 0, bytes: 0 }
+
+  for (const [name, value] of Object.entries({ maxEntries, maxBytes, sweepInterval })) {
+    if (value !== undefined && value <= 0) {
+      throw new Error(`Memory adapter \`${name}\` must be greater than zero.`)
+    }
+  }
+
+  const unindex = (id: string): void => {
+    const existing = sessions.get(id)
+    const userId = existing && userKey ? userKey(existing.data) : null
+    const ids = userId ? users.get(userId) : undefined
+
+    if (ids) {
+      ids.delete(id)
+      if (ids.size === 0) {
+        users.delete(userId!)
+      }
+    }
+  }
+
+  const remove = (id: string): void => {
+    unindex(id)
+    sessions.delete(id)
+    counters.bytes -= sizes.get(id) ?? 0
+    sizes.delete(id)
+  }
+
+  const evictOverflow = (): void => {
+    for (const id of sessions.keys()) {
+      const overEntries = maxEntries !== undefined && sessions.size > maxEntries
+      const overBytes = maxBytes !== undefined && counters.bytes > maxBytes
+
+      if (!overEntries && !overBytes) {
+        return
+      }
+
+      remove(id)
+      counters.evictions += 1
+    }
+  }
+
+  // Re-inserting moves a session to the most recently used end of the map.
+  const markUsed = (id: string, session: StoredSession<TSession>): void => {
+    sessions.delete(id)
+    sessions.set(id, session)
+  }
+
+  const write = (id: string, session: StoredSession<TSession>): void => {
+    const size = encoder.encode(JSON.stringify(session)).byteLength
+    if (maxBytes !== undefined && size > maxBytes) {
+      throw new Error(`Session ${id} is larger than the memory adapter's \`maxBytes\`.`)
+    }
+
+    remove(id)
+    sessions.set(id, session)
+    sizes.set(id, size)
+    counters.bytes += size
+
+    const userId = userKey ? userKey(session.data) : null
+    if (userId) {
+      const ids = users.get(userId) ?? new Set<string>()
+      ids.add(id)
+      users.set(userId, ids)
+    }
+
+    evictOverflow()
+  }
+
+  const requireUserKey = (): void => {
+    if (!userKey) {
+      throw new Error('The per-user session index requires the `userKey` option.')
+    }
+  }
+
+  const liveIds = (): string[] => {
+    const current = now()
+
+    return [...sessions.entries()]
+      .filter(([id, stored]) => {
+        if (stored.expiresAt > current) {
+          return true
+        }
+
+        remove(id)
+        return false
+      })
+      .map(([id]) => id)
+  }
+
+  const listLive = (userId: string): string[] => {
+    const ids = [...(users.get(userId) ?? [])]
+    const current = now()
+
+    return ids.filter((id) => {
+      const existing = sessions.get(id)
+      if (existing && existing.expiresAt > current) {
+        return true
+      }
+
+      remove(id)
+      return false
+    })
+  }
+
+  const pruneExpired = (): number => {
+    const current = now()
+    let removed = 0
+
+    for (const [id, stored] of sessions) {
+      if (stored.expiresAt <= current) {
+        remove(id)
+        removed += 1
+      }
+    }
+
+    return removed
+  }
+
+  let sweeper: ReturnType<typeof setInterval> | null = null
+
+  if (sweepInterval !== undefined) {
+    sweeper = setInterval(pruneExpired, sweepInterval)
+    // The sweep alone should not keep the process alive.
+    if (typeof sweeper === 'object' && 'unref' in sweeper) {
+      sweeper.unref()
+    }
+  }
 
   return {
     async get(id) {
       const existing = sessions.get(id)
       if (!existing) {
+        counters.misses += 1
         return null
       }
 
       if (existing.expiresAt <= now()) {
-        sessions.delete(id)
+        remove(id)
+        counters.misses += 1
         return null
       }
 
+      counters.hits += 1
+      markUsed(id, existing)
       return clone(existing)
     },
-    async set(id, session) {
-      sessions.set(id, clone(session))
+    async set(id, session, setOptions = {}) {
+      const { expectedVersion } = setOptions
+      if (expectedVersion !== undefined) {
+        const existing = sessions.get(id)
+        const version = existing && existing.expiresAt > now() ? (existing.version ?? 0) : 0
+
+        if (version !== expectedVersion) {
+          throw new SessionConflictError(id, expectedVersion)
+        }
+      }
+
+      write(id, clone(session))
     },
     async delete(id) {
-      sessions.delete(id)
+      remove(id)
+    },
+    async patch(id, changes) {
+      const existing = sessions.get(id)
+      if (!existing || existing.expiresAt <= now()) {
+        return false
+      }
+
+      const { set, unset, ...meta } = changes
+      const data = { ...existing.data, ...clone(set) }
+      for (const key of unset) {
+        delete data[key]
+      }
+
+      write(id, { ...clone(meta), data })
+      return true
+    },
+    async touch(id, expiresAt) {
+      const existing = sessions.get(id)
+      if (!existing || existing.expiresAt <= now()) {
+        return false
+      }
+
+      existing.expiresAt = expiresAt
+      markUsed(id, existing)
+      return true
+    },
+    async listSessionsForUser(userId) {
+      requireUserKey()
+      return listLive(userId)
+    },
+    async destroyAllForUser(userId, destroyOptions = {}) {
+      requireUserKey()
+      const except = new Set(
+        typeof destroyOptions.except === 'string' ? [destroyOptions.except] : destroyOptions.except
+      )
+      let removed = 0
+
+      for (const id of listLive(userId)) {
+        if (!except.has(id)) {
+          remove(id)
+          removed += 1
+        }
+      }
+
+      return removed
+    },
+    async count() {
+      return liveIds().length
+    },
+    async ids() {
+      return liveIds()
+    },
+    async pruneExpired() {
+      return pruneExpired()
+    },
+    async *entries() {
+      for (const id of liveIds()) {
+        const existing = sessions.get(id)
+        if (existing) {
+          yield [id, clone(existing)] as [string, StoredSession<TSession>]
+        }
+      }
+    },
+    stats() {
+      return { ...counters, size: sessions.size }
+    },
+    close() {
+      if (sweeper) {
+        clearInterval(sweeper)
+        sweeper = null
+      }
     }
   }
 }
@@ -1,4 +1,12 @@
-import type { JsonObject, SessionStoreAdapter, StoredSession } from '../types.js'
+import { SessionConflictError } from '../errors.js'
+import type {
+  JsonObject,
+  SessionInvalidation,
+  SessionInvalidationBus,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
 
 /** Minimal Redis client contract required by the adapter. */
 export interface RedisSessionClient {
@@ -10,10 +18,26 @@ export interface RedisSessionClient {
   del(key: string): Promise<unknown> | unknown
   /** Set key expiration in milliseconds. */
   pexpire?(key: string, milliseconds: number): Promise<unknown> | unknown
+  /** Add a member to a set. Required by the per-user session index. */
+  sadd?(key: string, member: string): Promise<unknown> | unknown
+  /** Remove a member from a set. Required by the per-user session index. */
+  srem?(key: string, member: string): Promise<unknown> | unknown
+  /** List set members. Required by the per-user session index. */
+  smembers?(key: string): Promise<string[]> | string[]
+  /** Incrementally iterate keys. Required by `count`, `ids` and `entries`. */
+  scan?(
+    cursor: string,
+    ...args: Array<string | number>
+  ): Promise<[string, string[]]> | [string, string[]]
+  /**
+   * Send a raw command. Required for compare-and-set writes, which run as a Lua script,
+   * and for the `hash` layout.
+   */
+  send?(command: string, args: string[]): Promise<unknown> | unknown
 }
 
 /** Options for the Redis session adapter. */
-export interface RedisSessionAdapterOptions {
+export interface RedisSessionAdapterOptions<TSession extends JsonObject = JsonObject> {
   /** Custom Redis client. When omitted, Bun's global Redis client is used. */
   client?: RedisSessionClient
   /** Redis URL used when constructing Bun's client. */
@@ -24,6 +48,39 @@ export interface RedisSessionAdapterOptions {
   now?: () => number
   /** Also set Redis native key TTL with `PEXPIRE`. Defaults to `true`. */
   useNativeTtl?: boolean
+  /**
+   * Storage layout of a session key. `json` (default) stores one JSON string; `hash` stores
+   * one hash field per session key plus `expiresAt` and `meta` fields, so `patch` and `touch`
+   * only write what changed.
+   */
+  layout?: 'json' | 'hash'
+  /**
+   * Selects the user a session belongs to. Enables the per-user session index,
+   * kept as one Redis set per user at `${prefix}user:${userId}`.
+   */
+  userKey?: SessionUserKey<TSession>
+}
+
+/** Redis connections used by the pub/sub invalidation bus. */
+export interface RedisInvalidationBusOptions {
+  /** Connection used to publish invalidations. */
+  publisher: {
+    publish(channel: string, message: string): Promise<unknown> | unknown
+  }
+  /**
+   * Dedicated connection in subscriber mode, such as `client.duplicate()` with Bun's client.
+   */
+  subscriber: {
+    subscribe(
+      channel: string,
+      listener: (message: string, channel: string) => void
+    ): Promise<unknown> | unknown
+    unsubscribe?(channel: string): Promise<unknown> | unknown
+  }
+  /** Pub/sub channel name. Defaults to `session:invalidate`. */
+  channel?: string
+  /** Called when subscribing to or unsubscribing from the channel fails. */
+  onError?: (error: unknown) => void
 }
 
 const defaultClone = <TValue>(value: TValue): TValue => {
@@ -34,6 +91,120 @@ const defaultClone = <TValue>(value: TValue): TValue => {
   return JSON.parse(JSON.stringify(value)) as TValue
 }
 
+const DEFAULT_BATCH_SIZE = 100
+const META_FIELD = 'meta'
+const EXPIRES_AT_FIELD = 'expiresAt'
+const DATA_FIELD_PREFIX = 'data:'
+
+type SessionMetadata = Omit<StoredSession, 'data' | 'expiresAt'>
+
+// KEYS[1] = session key
+// ARGV = expected version, payload, ttl in ms, now in ms, use native ttl ('1' | '0')
+const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then
+  local ok, decoded = pcall(cjson.decode, current)
+  if ok and type(decoded) == 'table' and (tonumber(decoded.expiresAt) or 0) > tonumber(ARGV[4]) then
+    version = tonumber(decoded.version) or 0
+  end
+end
+if version ~= tonumber(ARGV[1]) then
+  return 0
+end
+if tonumber(ARGV[3]) <= 0 then
+  redis.call('DEL', KEYS[1])
+elseif ARGV[5] == '1' then
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+else
+  redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1
+`
+
+// KEYS[1] = session hash key
+// ARGV = expected version, ttl in ms, now in ms, use native ttl ('1' | '0'), field/value pairs...
+const HASH_COMPARE_AND_SET_SCRIPT = `
+local fields = redis.call('HMGET', KEYS[1], '${EXPIRES_AT_FIELD}', '${META_FIELD}')
+local version = 0
+if fields[2] and (tonumber(fields[1]) or 0) > tonumber(ARGV[3]) then
+  local ok, decoded = pcall(cjson.decode, fields[2])
+  if ok and type(decoded) == 'table' then
+    version = tonumber(decoded.version) or 0
+  end
+end
+if version ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('DEL', KEYS[1])
+if tonumber(ARGV[2]) > 0 then
+  redis.call('HSET', KEYS[1], unpack(ARGV, 5))
+  if ARGV[4] == '1' then
+    redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  end
+end
+return 1
+`
+
+// KEYS[1] = session hash key
+// ARGV = ttl in ms, use native ttl ('1' | '0'), field/value pairs...
+const HASH_WRITE_SCRIPT = `
+redis.call('DEL', KEYS[1])
+redis.call('HSET', KEYS[1], unpack(ARGV, 3))
+if ARGV[2] == '1' then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return 1
+`
+
+// KEYS[1] = session hash key
+// ARGV = now in ms, ttl in ms, use native ttl ('1' | '0'), number of fields to delete,
+// fields to delete..., field/value pairs...
+const HASH_UPDATE_SCRIPT = `
+local expiresAt = tonumber(redis.call('HGET', KEYS[1], '${EXPIRES_AT_FIELD}'))
+if not expiresAt or expiresAt <= tonumber(ARGV[1]) then
+  return 0
+end
+local deleted = tonumber(ARGV[4])
+if deleted > 0 then
+  redis.call('HDEL', KEYS[1], unpack(ARGV, 5, 4 + deleted))
+end
+redis.call('HSET', KEYS[1], unpack(ARGV, 5 + deleted))
+if ARGV[3] == '1' then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 1
+`
+
+const toHashFields = (
+  { expiresAt, ...meta }: Omit<StoredSession, 'data'>,
+  data: Partial<JsonObject>
+): string[] => {
+  const fields = [EXPIRES_AT_FIELD, String(expiresAt), META_FIELD, JSON.stringify(meta)]
+
+  for (const [key, value] of Object.entries(data)) {
+    fields.push(`${DATA_FIELD_PREFIX}${key}`, JSON.stringify(value))
+  }
+
+  return fields
+}
+
+// RESP3 replies to HGETALL as a map, RESP2 as a flat field/value list.
+const fromHashReply = (reply: unknown): Record<string, string> => {
+  if (!Array.isArray(reply)) {
+    return (reply ?? {}) as Record<string, string>
+  }
+
+  const fields: Record<string, string> = {}
+  for (let index = 0; index + 1 < reply.length; index += 2) {
+    fields[String(reply[index])] = String(reply[index + 1])
+  }
+
+  return fields
+}
+
+const escapeGlob = (value: string): string => value.replace(/[*?[\]\\]/g, '\\$&')
+
 const createBunRedisClient = (url?: string): RedisSessionClient => {
   const globalState = globalThis as unknown as {
     RedisClient?: new (url?: string) => RedisSessionClient
@@ -62,56 +233,432 @@ const createBunRedisClient = (url?: string): RedisSessionClient => {
 
 /** Creates a Redis-backed session adapter. */
 export const createRedisSessionAdapter = <TSession extends JsonObject = JsonObject>(
-  options: RedisSessionAdapterOptions = {}
+  options: RedisSessionAdapterOptions<TSession> = {}
 ): SessionStoreAdapter<TSession> => {
   const prefix = options.prefix ?? 'session:'
   const now = options.now ?? Date.now
   const useNativeTtl = options.useNativeTtl ?? true
+  const layout = options.layout ?? 'json'
+  const userKey = options.userKey
   const client = options.client ?? createBunRedisClient(options.url)
 
+  if (layout === 'hash' && !client.send) {
+    throw new Error('The `hash` layout requires a Redis client with `send`.')
+  }
+
+  const send = (command: string, args: string[]) => client.send!(command, args)
+
   const getKey = (id: string): string => `${prefix}${id}`
+  const getUserSetKey = (userId: string): string => `${prefix}user:${userId}`
 
-  return {
-    async get(id) {
-      const key = getKey(id)
-      const payload = await client.get(key)
-      if (!payload) {
-        return null
+  const decodeHash = (fields: Record<string, string>): StoredSession<TSession> => {
+    const data: JsonObject = {}
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (field.startsWith(DATA_FIELD_PREFIX)) {
+        data[field.slice(DATA_FIELD_PREFIX.length)] = JSON.parse(value)
       }
+    }
 
-      let parsed: StoredSession<TSession>
+    return {
+      ...(JSON.parse(fields[META_FIELD]!) as SessionMetadata),
+      data: data as TSession,
+      expiresAt: Number(fields[EXPIRES_AT_FIELD])
+    }
+  }
 
-      try {
-        parsed = JSON.parse(payload) as StoredSession<TSession>
-      } catch {
-        await client.del(key)
-        return null
+  /** Writes hash fields of a live session in one script, so an expired key is not recreated. */
+  const updateHash = async (
+    key: string,
+    ttl: number,
+    fields: string[],
+    deleted: string[] = []
+  ): Promise<boolean> => {
+    const applied = await send('EVAL', [
+      HASH_UPDATE_SCRIPT,
+      '1',
+      key,
+      String(now()),
+      String(ttl),
+      useNativeTtl ? '1' : '0',
+      String(deleted.length),
+      ...deleted,
+      ...fields
+    ])
+
+    return Number(applied) === 1
+  }
+
+  const readRaw = async (key: string): Promise<StoredSession<TSession> | null> => {
+    if (layout === 'hash') {
+      const fields = fromHashReply(await send('HGETALL', [key]))
+      return fields[META_FIELD] === undefined ? null : decodeHash(fields)
+    }
+
+    const payload = await client.get(key)
+    return payload ? (JSON.parse(payload) as StoredSession<TSession>) : null
+  }
+
+  const read = async (id: string): Promise<StoredSession<TSession> | null> => {
+    const key = getKey(id)
+    let parsed: StoredSession<TSession> | null
+
+    try {
+      parsed = await readRaw(key)
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error
       }
 
-      if (parsed.expiresAt <= now()) {
-        await client.del(key)
-        return null
+      await client.del(key)
+      return null
+    }
+
+    if (!parsed) {
+      return null
+    }
+
+    if (parsed.expiresAt <= now()) {
+      await client.del(key)
+      return null
+    }
+
+    return parsed
+  }
+
+  const requireUserIndex = () => {
+    if (!userKey) {
+      throw new Error('The per-user session index requires the `userKey` option.')
+    }
+
+    if (!client.sadd || !client.srem || !client.smembers) {
+      throw new Error(
+        'The per-user session index requires a Redis client with `sadd`, `srem` and `smembers`.'
+      )
+    }
+
+    return {
+      userKey,
+      sadd: client.sadd.bind(client),
+      srem: client.srem.bind(client),
+      smembers: client.smembers.bind(client)
+    }
+  }
+
+  const unindex = async (id: string, existing?: StoredSession<TSession> | null): Promise<void> => {
+    if (!userKey) {
+      return
+    }
+
+    const index = requireUserIndex()
+    const previous = existing === undefined ? await read(id) : existing
+    const userId = previous ? index.userKey(previous.data) : null
+
+    if (userId) {
+      await index.srem(getUserSetKey(userId), id)
+    }
+  }
+
+  const compareAndSet = async (
+    id: string,
+    session: StoredSession<TSession>,
+    expectedVersion: number,
+    ttl: number
+  ): Promise<void> => {
+    if (!client.send) {
+      throw new Error('Compare-and-set writes require a Redis client with `send`.')
+    }
+
+    const { data, ...meta } = session
+    const applied = await client.send(
+      'EVAL',
+      layout === 'hash'
+        ? [
+            HASH_COMPARE_AND_SET_SCRIPT,
+            '1',
+            getKey(id),
+            String(expectedVersion),
+            String(ttl),
+            String(now()),
+            useNativeTtl ? '1' : '0',
+            ...toHashFields(meta, data)
+          ]
+        : [
+            COMPARE_AND_SET_SCRIPT,
+            '1',
+            getKey(id),
+            String(expectedVersion),
+            JSON.stringify(session),
+            String(ttl),
+            String(now()),
+            useNativeTtl ? '1' : '0'
+          ]
+    )
+
+    if (Number(applied) !== 1) {
+      throw new SessionConflictError(id, expectedVersion)
+    }
+  }
+
+  const expire = async (key: string, ttl: number): Promise<void> => {
+    if (useNativeTtl && typeof client.pexpire === 'function') {
+      await client.pexpire(key, ttl)
+    }
+  }
+
+  const reindex = async (
+    id: string,
+    previous: StoredSession<TSession> | null,
+    data: TSession | null
+  ): Promise<void> => {
+    await unindex(id, previous)
+
+    const userId = data && userKey ? userKey(data) : null
+    if (userId) {
+      await requireUserIndex().sadd(getUserSetKey(userId), id)
+    }
+  }
+
+  const patch: SessionStoreAdapter<TSession>['patch'] = async (id, changes) => {
+    const key = getKey(id)
+    const { set, unset, ...meta } = changes
+    // Only the per-user index needs the full previous data; the script checks liveness.
+    const previous = userKey ? await read(id) : null
+
+    if (userKey && !previous) {
+      return false
+    }
+
+    const ttl = meta.expiresAt - now()
+    if (ttl <= 0) {
+      await client.del(key)
+      await reindex(id, previous, null)
+      return true
+    }
+
+    const deleted = unset.map((field) => `${DATA_FIELD_PREFIX}${field}`)
+    if (!(await updateHash(key, ttl, toHashFields(meta, set), deleted))) {
+      return false
+    }
+
+    if (userKey && previous) {
+      const data = { ...previous.data, ...set }
+      for (const field of unset) {
+        delete data[field]
+      }
+
+      await reindex(id, previous, data)
+    }
+
+    return true
+  }
+
+  const touch: SessionStoreAdapter<TSession>['touch'] = async (id, expiresAt) => {
+    return updateHash(getKey(id), expiresAt - now(), [EXPIRES_AT_FIELD, String(expiresAt)])
+  }
+
+  const scanIds = async function* (batchSize: number): AsyncGenerator<string[]> {
+    if (!client.scan) {
+      throw new Error('Listing sessions requires a Redis client with `scan`.')
+    }
+
+    const pattern = `${escapeGlob(prefix)}*`
+    const userSetPrefix = getUserSetKey('')
+    let cursor = '0'
+
+    do {
+      const [next, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', batchSize)
+      cursor = String(next)
+
+      yield keys
+        .filter((key) => !(userKey && key.startsWith(userSetPrefix)))
+        .map((key) => key.slice(prefix.length))
+    } while (cursor !== '0')
+  }
+
+  const liveEntries = async function* (
+    batchSize = DEFAULT_BATCH_SIZE
+  ): AsyncGenerator<[string, StoredSession<TSession>]> {
+    // SCAN may return a key more than once while the keyspace changes.
+    const seen = new Set<string>()
+
+    for await (const ids of scanIds(batchSize)) {
+      for (const id of ids) {
+        if (seen.has(id)) {
+          continue
+        }
+
+        seen.add(id)
+        const existing = await read(id)
+        if (existing) {
+          yield [id, existing]
+        }
       }
+    }
+  }
+
+  const liveIds = async (): Promise<string[]> => {
+    const ids: string[] = []
+
+    for await (const [id] of liveEntries()) {
+      ids.push(id)
+    }
 
-      return defaultClone(parsed)
+    return ids
+  }
+
+  const listLive = async (userId: string): Promise<string[]> => {
+    const index = requireUserIndex()
+    const setKey = getUserSetKey(userId)
+    const live: string[] = []
+
+    for (const id of await index.smembers(setKey)) {
+      if (await read(id)) {
+        live.push(id)
+      } else {
+        await index.srem(setKey, id)
+      }
+    }
+
+    return live
+  }
+
+  return {
+    ...(client.send ? {} : { compareAndSet: false }),
+    async get(id) {
+      const existing = await read(id)
+      return existing ? defaultClone(existing) : null
     },
-    async set(id, session) {
+    async set(id, session, setOptions = {}) {
       const key = getKey(id)
       const ttl = session.expiresAt - now()
+      const previous = userKey ? await read(id) : null
 
-      if (ttl <= 0) {
+      if (setOptions.expectedVersion !== undefined) {
+        await compareAndSet(id, session, setOptions.expectedVersion, ttl)
+      } else if (ttl <= 0) {
         await client.del(key)
-        return
+      } else if (layout === 'hash') {
+        // Replaces the hash in one script, so readers never see it missing or half-written.
+        const { data, ...meta } = session
+        await send('EVAL', [
+          HASH_WRITE_SCRIPT,
+          '1',
+          key,
+          String(ttl),
+          useNativeTtl ? '1' : '0',
+          ...toHashFields(meta, data)
+        ])
+      } else {
+        await client.set(key, JSON.stringify(session))
+        await expire(key, ttl)
       }
 
-      await client.set(key, JSON.stringify(session))
-
-      if (useNativeTtl && typeof client.pexpire === 'function') {
-        await client.pexpire(key, ttl)
-      }
+      await reindex(id, previous, ttl > 0 ? session.data : null)
     },
     async delete(id) {
+      await unindex(id)
       await client.del(getKey(id))
+    },
+    ...(layout === 'hash' ? { patch, touch } : {}),
+    async listSessionsForUser(userId) {
+      return listLive(userId)
+    },
+    async destroyAllForUser(userId, destroyOptions = {}) {
+      const index = requireUserIndex()
+      const except = new Set(
+        typeof destroyOptions.except === 'string' ? [destroyOptions.except] : destroyOptions.except
+      )
+      let removed = 0
+
+      for (const id of await listLive(userId)) {
+        if (!except.has(id)) {
+          await client.del(getKey(id))
+          await index.srem(getUserSetKey(userId), id)
+          removed += 1
+        }
+      }
+
+      return removed
+    },
+    async count() {
+      return (await liveIds()).length
+    },
+    async pruneExpired() {
+      // Reading an expired record deletes it, so a full pass prunes the keyspace.
+      let removed = 0
+
+      for await (const ids of scanIds(DEFAULT_BATCH_SIZE)) {
+        for (const id of ids) {
+          if (!(await read(id))) {
+            removed += 1
+          }
+        }
+      }
+
+      return removed
+    },
+    async ids() {
+      return liveIds()
+    },
+    entries(entriesOptions = {}) {
+      return liveEntries(entriesOptions.batchSize)
+    }
+  }
+}
+
+/** Creates an invalidation bus for tiered adapters on top of Redis pub/sub. */
+export const createRedisInvalidationBus = (
+  options: RedisInvalidationBusOptions
+): SessionInvalidationBus => {
+  const { publisher, subscriber } = options
+  const channel = options.channel ?? 'session:invalidate'
+  const listeners = new Set<(message: SessionInvalidation) => void>()
+
+  // Subscriptions change in the background, so failures are reported instead of thrown.
+  const background = (task: () => unknown): void => {
+    const report = (error: unknown): void => options.onError?.(error)
+
+    try {
+      Promise.resolve(task()).catch(report)
+    } catch (error) {
+      report(error)
+    }
+  }
+
+  const dispatch = (payload: string): void => {
+    let message: SessionInvalidation
+
+    try {
+      message = JSON.parse(payload) as SessionInvalidation
+    } catch {
+      return
+    }
+
+    for (const listener of listeners) {
+      listener(message)
+    }
+  }
+
+  return {
+    async publish(message) {
+      await publisher.publish(channel, JSON.stringify(message))
+    },
+    subscribe(listener) {
+      // One Redis subscription fans out to every local listener.
+      if (listeners.size === 0) {
+        background(() => subscriber.subscribe(channel, dispatch))
+      }
+
+      listeners.add(listener)
+
+      return () => {
+        listeners.delete(listener)
+
+        if (listeners.size === 0) {
+          background(() => subscriber.unsubscribe?.(channel))
+        }
+      }
     }
   }
 }
@@ -0,0 +1,344 @@
+import { createHash } from 'node:crypto'
+import { readdir, readFile, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { SessionConflictError } from '../errors.js'
+import type {
+  DestroyUserSessionsOptions,
+  JsonObject,
+  SessionSetOptions,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
+import {
+  DEFAULT_LOCK_TIMEOUT,
+  isMissingFileError,
+  withFileLock,
+  writeFileAtomic
+} from './file-system.js'
+
+/** Options for the sharded directory session adapter. */
+export interface ShardedFileSessionAdapterOptions<TSession extends JsonObject = JsonObject> {
+  /** Directory holding one JSON file per session. */
+  directory: string
+  /** Time source used for expiration checks. */
+  now?: () => number
+  /** Pretty-print session files with indentation. */
+  pretty?: boolean
+  /** Selects the user a session belongs to. Enables the per-user session index. */
+  userKey?: SessionUserKey<TSession>
+  /** Milliseconds to wait for a lock held by another process. Defaults to 10 seconds. */
+  lockTimeout?: number
+}
+
+/** Contents of a session file. The id is kept because file names are hashed. */
+type SessionRecord<TSession extends JsonObject> = {
+  id: string
+  session: StoredSession<TSession>
+}
+
+/** Contents of a per-user index file. */
+type UserRecord = {
+  userId: string
+  ids: string[]
+}
+
+const SESSIONS_DIRECTORY = 'sessions'
+const USERS_DIRECTORY = 'users'
+
+/** Sessions removed per lock by `destroyAllForUser`, so other writers are not starved. */
+const DESTROY_BATCH_SIZE = 100
+
+const hashName = (value: string): string => createHash('sha256').update(value).digest('hex')
+
+/**
+ * Session adapter that stores each session in its own file under `directory`.
+ *
+ * Files are spread over 256 shard directories by a hash of the session id, so reads and writes
+ * cost the same regardless of how many sessions exist. Writes replace files atomically and hold
+ * a lock file in `directory`, so several processes can share the store. Reads take no lock.
+ * Bulk removals release the lock between shards or batches instead of holding it throughout.
+ */
+export class ShardedFileSessionAdapter<TSession extends JsonObject = JsonObject>
+  implements SessionStoreAdapter<TSession>
+{
+  private readonly directory: string
+  private readonly now: () => number
+  private readonly pretty: boolean
+  private readonly userKey?: SessionUserKey<TSession>
+  private readonly lockTimeout: number
+  private operationQueue: Promise<void> = Promise.resolve()
+
+  /** Creates a sharded directory adapter instance. */
+  constructor(options: ShardedFileSessionAdapterOptions<TSession>) {
+    this.directory = options.directory
+    this.now = options.now ?? Date.now
+    this.pretty = options.pretty ?? false
+    this.userKey = options.userKey
+    this.lockTimeout = options.lockTimeout ?? DEFAULT_LOCK_TIMEOUT
+  }
+
+  private enqueue<TResult>(task: () => Promise<TResult>): Promise<TResult> {
+    const locked = () => withFileLock(join(this.directory, '.lock'), this.lockTimeout, task)
+    const run = this.operationQueue.then(locked, locked)
+    this.operationQueue = run.then(
+      () => undefined,
+      () => undefined
+    )
+    return run
+  }
+
+  private sessionPath(id: string): string {
+    const name = hashName(id)
+    return join(this.directory, SESSIONS_DIRECTORY, name.slice(0, 2), `${name}.json`)
+  }
+
+  private userPath(userId: string): string {
+    return join(this.directory, USERS_DIRECTORY, `${hashName(userId)}.json`)
+  }
+
+  private async readJson<TValue>(path: string): Promise<TValue | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as TValue
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null
+      }
+
+      throw error
+    }
+  }
+
+  private async writeJson(path: string, value: unknown): Promise<void> {
+    const content = this.pretty ? JSON.stringify(value, null, 2) : JSON.stringify(value)
+    await writeFileAtomic(path, content)
+  }
+
+  private async readSession(id: string): Promise<StoredSession<TSession> | null> {
+    const record = await this.readJson<SessionRecord<TSession>>(this.sessionPath(id))
+    return record?.session ?? null
+  }
+
+  private isLive(stored: StoredSession<TSession>): boolean {
+    return stored.expiresAt > this.now()
+  }
+
+  private async readUserIds(userId: string): Promise<string[]> {
+    return (await this.readJson<UserRecord>(this.userPath(userId)))?.ids ?? []
+  }
+
+  private async writeUserIds(userId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      await rm(this.userPath(userId), { force: true })
+    } else {
+      await this.writeJson(this.userPath(userId), { userId, ids } satisfies UserRecord)
+    }
+  }
+
+  private async indexUser(id: string, stored: StoredSession<TSession>): Promise<void> {
+    const userId = this.userKey?.(stored.data)
+    if (userId) {
+      const ids = await this.readUserIds(userId)
+      await this.writeUserIds(userId, [...ids.filter((existing) => existing !== id), id])
+    }
+  }
+
+  private async unindexUser(id: string, stored: StoredSession<TSession>): Promise<void> {
+    const userId = this.userKey?.(stored.data)
+    if (userId) {
+      const ids = await this.readUserIds(userId)
+      await this.writeUserIds(userId, ids.filter((existing) => existing !== id))
+    }
+  }
+
+  /** Must run inside `enqueue`. */
+  private async remove(id: string, stored: StoredSession<TSession>): Promise<void> {
+    await rm(this.sessionPath(id), { force: true })
+    await this.unindexUser(id, stored)
+  }
+
+  private requireUserKey(): void {
+    if (!this.userKey) {
+      throw new Error('The per-user session index requires the `userKey` option.')
+    }
+  }
+
+  private async shards(): Promise<string[]> {
+    return readdir(join(this.directory, SESSIONS_DIRECTORY)).catch((error: unknown) => {
+      if (isMissingFileError(error)) {
+        return []
+      }
+
+      throw error
+    })
+  }
+
+  private async *walkShard(shard: string): AsyncIterable<[string, StoredSession<TSession>]> {
+    const path = join(this.directory, SESSIONS_DIRECTORY, shard)
+    const files = await readdir(path).catch(() => [])
+
+    for (const file of files) {
+      // Skips temporary files of writes in progress.
+      if (!file.endsWith('.json')) {
+        continue
+      }
+
+      const record = await this.readJson<SessionRecord<TSession>>(join(path, file))
+      if (record) {
+        yield [record.id, record.session]
+      }
+    }
+  }
+
+  private async *walk(): AsyncIterable<[string, StoredSession<TSession>]> {
+    for (const shard of await this.shards()) {
+      yield* this.walkShard(shard)
+    }
+  }
+
+  async get(id: string): Promise<StoredSession<TSession> | null> {
+    const stored = await this.readSession(id)
+    if (!stored) {
+      return null
+    }
+
+    if (!this.isLive(stored)) {
+      await this.enqueue(async () => {
+        const current = await this.readSession(id)
+        if (current && !this.isLive(current)) {
+          await this.remove(id, current)
+        }
+      })
+
+      return null
+    }
+
+    return stored
+  }
+
+  async set(
+    id: string,
+    session: StoredSession<TSession>,
+    options: SessionSetOptions = {}
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      const existing = await this.readSession(id)
+      const live = existing && this.isLive(existing) ? existing : null
+      const { expectedVersion } = options
+
+      if (expectedVersion !== undefined && (live?.version ?? 0) !== expectedVersion) {
+        throw new SessionConflictError(id, expectedVersion)
+      }
+
+      const record: SessionRecord<TSession> = { id, session }
+      await this.writeJson(this.sessionPath(id), record)
+
+      const previousUserId = existing ? this.userKey?.(existing.data) : null
+      if (previousUserId !== this.userKey?.(session.data)) {
+        if (existing) {
+          await this.unindexUser(id, existing)
+        }
+
+        await this.indexUser(id, session)
+      }
+    })
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const existing = await this.readSession(id)
+      if (existing) {
+        await this.remove(id, existing)
+      }
+    })
+  }
+
+  async listSessionsForUser(userId: string): Promise<string[]> {
+    this.requireUserKey()
+    const ids: string[] = []
+
+    for (const id of await this.readUserIds(userId)) {
+      const stored = await this.readSession(id)
+      if (stored && this.isLive(stored)) {
+        ids.push(id)
+      }
+    }
+
+    return ids
+  }
+
+  async destroyAllForUser(
+    userId: string,
+    options: DestroyUserSessionsOptions = {}
+  ): Promise<number> {
+    this.requireUserKey()
+    const except = new Set(typeof options.except === 'string' ? [options.except] : options.except)
+
+    let removed = 0
+
+    for (let done = false; !done; ) {
+      done = await this.enqueue(async () => {
+        const ids = await this.readUserIds(userId)
+        const batch = ids.filter((id) => !except.has(id)).slice(0, DESTROY_BATCH_SIZE)
+
+        for (const id of batch) {
+          const stored = await this.readSession(id)
+          await rm(this.sessionPath(id), { force: true })
+
+          if (stored && this.isLive(stored)) {
+            removed += 1
+          }
+        }
+
+        const remaining = ids.filter((id) => !batch.includes(id))
+        await this.writeUserIds(userId, remaining)
+        return remaining.every((id) => except.has(id))
+      })
+    }
+
+    return removed
+  }
+
+  async pruneExpired(): Promise<number> {
+    let removed = 0
+
+    for (const shard of await this.shards()) {
+      removed += await this.enqueue(async () => {
+        let shardRemoved = 0
+
+        for await (const [id, stored] of this.walkShard(shard)) {
+          if (!this.isLive(stored)) {
+            await this.remove(id, stored)
+            shardRemoved += 1
+          }
+        }
+
+        return shardRemoved
+      })
+    }
+
+    return removed
+  }
+
+  async count(): Promise<number> {
+    return (await this.ids()).length
+  }
+
+  async ids(): Promise<string[]> {
+    const ids: string[] = []
+
+    for await (const [id] of this.entries()) {
+      ids.push(id)
+    }
+
+    return ids
+  }
+
+  async *entries(): AsyncIterable<[string, StoredSession<TSession>]> {
+    for await (const [id, stored] of this.walk()) {
+      if (this.isLive(stored)) {
+        yield [id, stored]
+      }
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import type { Database, Statement } from 'bun:sqlite'
+import { SessionConflictError } from '../errors.js'
+import type {
+  JsonObject,
+  SessionStoreAdapter,
+  SessionUserKey,
+  StoredSession
+} from '../types.js'
+
+/** Options for the bun:sqlite session adapter. */
+export interface SqliteSessionAdapterOptions<TSession extends JsonObject = JsonObject> {
+  /** Database file path, or `:memory:`. Opened with WAL journaling. */
+  path?: string
+  /** Existing bun:sqlite database, used instead of `path`. */
+  database?: Database
+  /** Session table name. Created with its indexes on first use. Defaults to `sessions`. */
+  table?: string
+  /** Time source used for expiration checks. */
+  now?: () => number
+  /** Selects the user a session belongs to. Enables the per-user session index. */
+  userKey?: SessionUserKey<TSession>
+}
+
+type SessionMetadata = Omit<StoredSession, 'data' | 'expiresAt' | 'version'>
+type SessionRow = {
+  id: string
+  data: string
+  meta: string
+  version: number | null
+  expires_at: number
+}
+type SqlParams = Record<string, string | number | null>
+
+const DEFAULT_TABLE = 'sessions'
+const DEFAULT_BATCH_SIZE = 100
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const createStatements = (database: Database, table: string) => {
+  database.run(`
+    CREATE TABLE IF NOT EXISTS "${table}" (
+      id TEXT PRIMARY KEY NOT NULL,
+      data TEXT NOT NULL,
+      meta TEXT NOT NULL,
+      version INTEGER,
+      user_id TEXT,
+      expires_at INTEGER NOT NULL
+    )
+  `)
+  database.run(`CREATE INDEX IF NOT EXISTS "${table}_expires_at_idx" ON "${table}" (expires_at)`)
+  database.run(`CREATE INDEX IF NOT EXISTS "${table}_user_id_idx" ON "${table}" (user_id)`)
+
+  const columns = 'id, data, meta, version, expires_at'
+  const upsert = `
+    INSERT INTO "${table}" (id, data, meta, version, user_id, expires_at)
+    VALUES ($id, $data, $meta, $version, $userId, $expiresAt)
+    ON CONFLICT (id) DO UPDATE SET
+      data = excluded.data,
+      meta = excluded.meta,
+      version = excluded.version,
+      user_id = excluded.user_id,
+      expires_at = excluded.expires_at
+  `
+  const prepare = (sql: string): Statement => database.prepare(sql)
+
+  return {
+    get: prepare(`SELECT ${columns} FROM "${table}" WHERE id = $id`),
+    upsert: prepare(upsert),
+    // A missing or expired session counts as version 0, so it can be created or replaced.
+    insertIfVersionZero: prepare(`
+      ${upsert}
+      WHERE coalesce("${table}".version, 0) = 0 OR "${table}".expires_at <= $now
+    `),
+    updateIfVersion: prepare(`
+      UPDATE "${table}"
+      SET data = $data, meta = $meta, version = $version, user_id = $userId,
+        expires_at = $expiresAt
+      WHERE id = $id AND version = $expectedVersion AND expires_at > $now
+    `),
+    touch: prepare(`
+      UPDATE "${table}" SET expires_at = $expiresAt WHERE id = $id AND expires_at > $now
+    `),
+    delete: prepare(`DELETE FROM "${table}" WHERE id = $id`),
+    listForUser: prepare(`
+      SELECT id FROM "${table}" WHERE user_id = $userId AND expires_at > $now
+    `),
+    deleteForUser: prepare(`
+      DELETE FROM "${table}"
+      WHERE user_id = $userId AND expires_at > $now
+        AND id NOT IN (SELECT value FROM json_each($except))
+    `),
+    count: prepare(`SELECT COUNT(*) AS value FROM "${table}" WHERE expires_at > $now`),
+    ids: prepare(`SELECT id FROM "${table}" WHERE expires_at > $now`),
+    page: prepare(`
+      SELECT ${columns} FROM "${table}"
+      WHERE expires_at > $now AND ($after IS NULL OR id > $after)
+      ORDER BY id
+      LIMIT $limit
+    `),
+    pruneExpired: prepare(`DELETE FROM "${table}" WHERE expires_at <= $now`)
+  }
+}
+
+type Statements = ReturnType<typeof createStatements>
+
+const openDatabase = async (path: string): Promise<Database> => {
+  const { Database } = await import('bun:sqlite')
+  const database = new Database(path, { create: true })
+
+  // WAL lets readers in other processes continue while a session is written.
+  database.run('PRAGMA journal_mode = WAL')
+  database.run('PRAGMA busy_timeout = 5000')
+  return database
+}
+
+/**
+ * Creates a session adapter on `bun:sqlite` that manages its own table.
+ *
+ * Writes are single UPSERT statements, compare-and-set writes add a version condition to the
+ * same statement, and `patch` merges changed keys inside a transaction.
+ */
+export const createSqliteSessionAdapter = <TSession extends JsonObject = JsonObject>(
+  options: SqliteSessionAdapterOptions<TSession>
+): SessionStoreAdapter<TSession> => {
+  const table = options.table ?? DEFAULT_TABLE
+  const now = options.now ?? Date.now
+  const userKey = options.userKey
+
+  if ((options.path === undefined) === (options.database === undefined)) {
+    throw new Error('Configure exactly one SQLite database: use either `path` or `database`.')
+  }
+
+  if (!TABLE_NAME_PATTERN.test(table)) {
+    throw new Error(`Invalid SQLite session table name "${table}".`)
+  }
+
+  let ready: Promise<{ database: Database; statements: Statements }> | null = null
+
+  const open = () =>
+    (ready ??= (async () => {
+      const database = options.database ?? (await openDatabase(options.path!))
+      return { database, statements: createStatements(database, table) }
+    })())
+
+  const decode = (row: SessionRow): StoredSession<TSession> => ({
+    ...(JSON.parse(row.meta) as SessionMetadata),
+    data: JSON.parse(row.data) as TSession,
+    expiresAt: row.expires_at,
+    ...(row.version === null ? {} : { version: row.version })
+  })
+
+  const encode = (id: string, session: StoredSession<TSession>): SqlParams => {
+    const { data, expiresAt, version, ...meta } = session
+
+    return {
+      $id: id,
+      $data: JSON.stringify(data),
+      $meta: JSON.stringify(meta),
+      $version: version ?? null,
+      $userId: userKey?.(data) ?? null,
+      $expiresAt: expiresAt
+    }
+  }
+
+  const requireUserKey = (): void => {
+    if (!userKey) {
+      throw new Error('The per-user session index requires the `userKey` option.')
+    }
+  }
+
+  const readLive = (statements: Statements, id: string): StoredSession<TSession> | null => {
+    const row = statements.get.get({ $id: id }) as SessionRow | null
+    return row && row.expires_at > now() ? decode(row) : null
+  }
+
+  return {
+    async get(id) {
+      const { statements } = await open()
+      const row = statements.get.get({ $id: id }) as SessionRow | null
+
+      if (!row) {
+        return null
+      }
+
+      if (row.expires_at <= now()) {
+        statements.delete.run({ $id: id })
+        return null
+      }
+
+      return decode(row)
+    },
+    async set(id, session, setOptions = {}) {
+      const { statements } = await open()
+      const params = encode(id, session)
+      const { expectedVersion } = setOptions
+
+      if (expectedVersion === undefined) {
+        statements.upsert.run(params)
+        return
+      }
+
+      const result =
+        expectedVersion === 0
+          ? statements.insertIfVersionZero.run({ ...params, $now: now() })
+          : statements.updateIfVersion.run({
+              ...params,
+              $expectedVersion: expectedVersion,
+              $now: now()
+            })
+
+      if (result.changes === 0) {
+        throw new SessionConflictError(id, expectedVersion)
+      }
+    },
+    async delete(id) {
+      const { statements } = await open()
+      statements.delete.run({ $id: id })
+    },
+    async patch(id, changes) {
+      const { database, statements } = await open()
+      const { set, unset, ...meta } = changes
+
+      return database.transaction(() => {
+        const existing = readLive(statements, id)
+        if (!existing) {
+          return false
+        }
+
+        const data = { ...existing.data, ...set }
+        for (const key of unset) {
+          delete data[key]
+        }
+
+        statements.upsert.run(encode(id, { ...meta, data }))
+        return true
+      })()
+    },
+    async touch(id, expiresAt) {
+      const { statements } = await open()
+      return statements.touch.run({ $id: id, $expiresAt: expiresAt, $now: now() }).changes > 0
+    },
+    async listSessionsForUser(userId) {
+      requireUserKey()
+      const { statements } = await open()
+      const rows = statements.listForUser.all({ $userId: userId, $now: now() }) as Array<{
+        id: string
+      }>
+
+      return rows.map((row) => row.id)
+    },
+    async destroyAllForUser(userId, destroyOptions = {}) {
+      requireUserKey()
+      const { statements } = await open()
+      const except =
+        typeof destroyOptions.except === 'string' ? [destroyOptions.except] : destroyOptions.except
+
+      return statements.deleteForUser.run({
+        $userId: userId,
+        $now: now(),
+        $except: JSON.stringify(except ?? [])
+      }).changes
+    },
+    async count() {
+      const { statements } = await open()
+      const row = statements.count.get({ $now: now() }) as { value: number }
+      return row.value
+    },
+    async ids() {
+      const { statements } = await open()
+      const rows = statements.ids.all({ $now: now() }) as Array<{ id: string }>
+      return rows.map((row) => row.id)
+    },
+    async *entries(entriesOptions = {}) {
+      const { statements } = await open()
+      const batchSize = entriesOptions.batchSize ?? DEFAULT_BATCH_SIZE
+      let lastId: string | null = null
+
+      while (true) {
+        const rows = statements.page.all({
+          $now: now(),
+          $after: lastId,
+          $limit: batchSize
+        }) as SessionRow[]
+
+        for (const row of rows) {
+          yield [row.id, decode(row)] as [string, StoredSession<TSession>]
+        }
+
+        if (rows.length < batchSize) {
+          return
+        }
+
+        lastId = rows[rows.length - 1]!.id
+      }
+    },
+    async pruneExpired() {
+      const { statements } = await open()
+      return statements.pruneExpired.run({ $now: now() }).changes
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { SessionConflictError } from '../errors.js'
+import type {
+  DestroyUserSessionsOptions,
+  JsonObject,
+  SessionInvalidation,
+  SessionInvalidationBus,
+  SessionPatch,
+  SessionStoreAdapter,
+  StoredSession
+} from '../types.js'
+
+/** Options for the tiered session adapter. */
+export interface TieredSessionAdapterOptions<TSession extends JsonObject = JsonObject> {
+  /** Fast per-process cache, usually the memory adapter. */
+  local: SessionStoreAdapter
+  /** Shared source of truth, such as the Redis or Drizzle adapter. */
+  remote: SessionStoreAdapter<TSession>
+  /** Maximum time in milliseconds a session is served from `local`. Defaults to 5 seconds. */
+  localTtl?: number
+  /** Channel used to evict local copies on other instances after a write. */
+  invalidation?: SessionInvalidationBus
+  /** Time source used for local cache expiration. */
+  now?: () => number
+  /** Called when evicting a local copy for an invalidation from another instance fails. */
+  onError?: (error: unknown) => void
+}
+
+/** Tiered adapter that can stop listening for invalidations. */
+export interface TieredSessionAdapter<TSession extends JsonObject = JsonObject>
+  extends SessionStoreAdapter<TSession> {
+  /** Unsubscribes from the invalidation bus. */
+  close(): void
+}
+
+/** Local cache entry. The cached session keeps its own expiry next to the cache deadline. */
+type CachedSession = { session: JsonObject }
+
+const DEFAULT_LOCAL_TTL = 5_000
+
+/** Creates an in-process invalidation bus, for tests and single-process deployments. */
+export const createLocalInvalidationBus = (): SessionInvalidationBus => {
+  const listeners = new Set<(message: SessionInvalidation) => void>()
+
+  return {
+    publish(message) {
+      for (const listener of listeners) {
+        listener(message)
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
+
+/**
+ * Creates an adapter that serves hot sessions from `local` and keeps `remote` authoritative.
+ *
+ * Reads fall through to `remote` on a local miss and cache the result for at most `localTtl`.
+ * Writes go to `remote` first, then refresh the local copy and publish an invalidation so
+ * other instances drop theirs.
+ */
+export const createTieredSessionAdapter = <TSession extends JsonObject = JsonObject>(
+  options: TieredSessionAdapterOptions<TSession>
+): TieredSessionAdapter<TSession> => {
+  const { local, remote, invalidation } = options
+  const localTtl = options.localTtl ?? DEFAULT_LOCAL_TTL
+  const now = options.now ?? Date.now
+  const origin = crypto.randomUUID()
+
+  if (localTtl <= 0) {
+    throw new Error('Tiered adapter local TTL must be greater than zero.')
+  }
+
+  const unsubscribe = invalidation?.subscribe((message) => {
+    if (message.origin !== origin) {
+      local.delete(message.id).catch((error: unknown) => options.onError?.(error))
+    }
+  })
+
+  const cache = async (id: string, session: StoredSession<TSession>): Promise<void> => {
+    const entry: CachedSession = { session: session as unknown as JsonObject }
+    await local.set(id, {
+      data: entry,
+      expiresAt: Math.min(session.expiresAt, now() + localTtl)
+    })
+  }
+
+  const readCached = async (id: string): Promise<StoredSession<TSession> | null> => {
+    const cached = await local.get(id)
+    const session = cached
+      ? ((cached.data as CachedSession).session as unknown as StoredSession<TSession>)
+      : null
+
+    return session && session.expiresAt > now() ? session : null
+  }
+
+  const evict = async (ids: string[]): Promise<void> => {
+    for (const id of ids) {
+      await local.delete(id)
+      await invalidation?.publish({ id, origin })
+    }
+  }
+
+  const patch = remote.patch?.bind(remote)
+  const touch = remote.touch?.bind(remote)
+  const listSessionsForUser = remote.listSessionsForUser?.bind(remote)
+  const destroyAllForUser = remote.destroyAllForUser?.bind(remote)
+
+  return {
+    ...(remote.metadata ? { metadata: remote.metadata } : {}),
+    ...(remote.compareAndSet === false ? { compareAndSet: false } : {}),
+    async get(id) {
+      const cached = await readCached(id)
+      if (cached) {
+        return cached
+      }
+
+      const stored = await remote.get(id)
+      if (stored) {
+        await cache(id, stored)
+      }
+
+      return stored
+    },
+    async set(id, session, setOptions) {
+      try {
+        await remote.set(id, session, setOptions)
+      } catch (error) {
+        // The local copy lost a race, so the next read must see the remote version.
+        if (error instanceof SessionConflictError) {
+          await local.delete(id)
+        }
+
+        throw error
+      }
+
+      await cache(id, session)
+      await invalidation?.publish({ id, origin })
+    },
+    async delete(id) {
+      await remote.delete(id)
+      await evict([id])
+    },
+    ...(patch
+      ? {
+          async patch(id: string, changes: SessionPatch<TSession>) {
+            const applied = await patch(id, changes)
+            await evict([id])
+            return applied
+          }
+        }
+      : {}),
+    ...(touch
+      ? {
+          async touch(id: string, expiresAt: number) {
+            const touched = await touch(id, expiresAt)
+            const cached = touched ? await readCached(id) : null
+
+            // Other instances cache no longer than the expiry they saw, so no broadcast is needed.
+            if (!touched) {
+              await evict([id])
+            } else if (cached) {
+              await cache(id, { ...cached, expiresAt })
+            }
+
+            return touched
+          }
+        }
+      : {}),
+    ...(listSessionsForUser ? { listSessionsForUser } : {}),
+    ...(listSessionsForUser && destroyAllForUser
+      ? {
+          async destroyAllForUser(userId: string, destroyOptions: DestroyUserSessionsOptions = {}) {
+            const except =
+              typeof destroyOptions.except === 'string'
+                ? [destroyOptions.except]
+                : destroyOptions.except
+            const ids = await listSessionsForUser(userId)
+            const removed = await destroyAllForUser(userId, destroyOptions)
+
+            await evict(ids.filter((id) => !except?.includes(id)))
+            return removed
+          }
+        }
+      : {}),
+    ...(remote.count ? { count: remote.count.bind(remote) } : {}),
+    ...(remote.ids ? { ids: remote.ids.bind(remote) } : {}),
+    ...(remote.entries ? { entries: remote.entries.bind(remote) } : {}),
+    ...(remote.pruneExpired
+      ? {
+          async pruneExpired() {
+            await local.pruneExpired?.()
+            return remote.pruneExpired!()
+          }
+        }
+      : {}),
+    close() {
+      unsubscribe?.()
+    }
+  }
+}
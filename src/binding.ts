@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto'
+import type {
+  JsonObject,
+  SessionBindingOptions,
+  SessionBindingPolicy,
+  SessionFingerprintSource
+} from './types.js'
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+const MAPPED_IPV4_PATTERN = /^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i
+
+/** Socket address lookup offered by the running server. */
+export type ClientAddressLookup = (request: Request) => string | null
+
+/** Binding options with defaults applied. */
+export interface SessionBinding<TSession extends JsonObject> {
+  policy: SessionBindingPolicy<TSession>
+  /** Hashes the configured fingerprint sources of a request. */
+  fingerprint(request: Request, lookup: ClientAddressLookup): Promise<string>
+}
+
+/** Clears every bit after the first `bits` of fixed-width address groups. */
+const maskGroups = (groups: number[], width: number, bits: number): number[] =>
+  groups.map((group, index) => {
+    const kept = Math.min(Math.max(bits - index * width, 0), width)
+    return kept === 0 ? 0 : group & ~((1 << (width - kept)) - 1)
+  })
+
+const parseIpv6 = (address: string): number[] | null => {
+  const [head, tail, ...rest] = address.split('::')
+  if (rest.length > 0) {
+    return null
+  }
+
+  const parse = (part: string | undefined): number[] =>
+    (part ? part.split(':') : []).map((group) =>
+      /^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN
+    )
+  const left = parse(head)
+  const right = parse(tail)
+  const omitted = 8 - left.length - right.length
+
+  if (tail !== undefined && omitted < 1) {
+    return null
+  }
+
+  const groups = tail === undefined ? left : [...left, ...Array<number>(omitted).fill(0), ...right]
+
+  return groups.length === 8 && groups.every((group) => !Number.isNaN(group)) ? groups : null
+}
+
+/**
+ * Truncates an IP address to its network prefix, so clients keep their fingerprint when their
+ * address changes within the same network. Unrecognized addresses are returned unchanged.
+ */
+export const maskIpAddress = (address: string, ipv4Prefix: number, ipv6Prefix: number): string => {
+  const plain = address.replace(/%.*$/, '')
+  const ipv4 = IPV4_PATTERN.exec(plain.replace(MAPPED_IPV4_PATTERN, '$1'))
+
+  if (ipv4) {
+    return maskGroups(ipv4.slice(1).map(Number), 8, ipv4Prefix).join('.')
+  }
+
+  const ipv6 = parseIpv6(plain)
+  return ipv6
+    ? maskGroups(ipv6, 16, ipv6Prefix)
+        .map((group) => group.toString(16))
+        .join(':')
+    : address
+}
+
+/** Applies defaults to the `binding` option, or returns `null` when binding is disabled. */
+export const resolveBinding = <TSession extends JsonObject>(
+  options: boolean | SessionBindingOptions<TSession> | undefined
+): SessionBinding<TSession> | null => {
+  if (!options) {
+    return null
+  }
+
+  const config = options === true ? {} : options
+  const sources: SessionFingerprintSource[] = Array.isArray(config.fingerprint)
+    ? config.fingerprint
+    : [config.fingerprint ?? 'user-agent']
+  const ipv4Prefix = config.ipv4Prefix ?? 24
+  const ipv6Prefix = config.ipv6Prefix ?? 64
+
+  if (sources.length === 0) {
+    throw new Error('Session binding requires at least one fingerprint source.')
+  }
+
+  if (ipv4Prefix < 0 || ipv4Prefix > 32 || ipv6Prefix < 0 || ipv6Prefix > 128) {
+    throw new Error('Session binding IP prefixes must fit the address length.')
+  }
+
+  return {
+    policy: config.policy ?? 'destroy',
+    async fingerprint(request, lookup) {
+      const parts: string[] = []
+
+      for (const source of sources) {
+        if (source === 'user-agent') {
+          parts.push(request.headers.get('user-agent') ?? '')
+        } else if (source === 'ip') {
+          const address = (config.clientIp ?? lookup)(request)
+          parts.push(address ? maskIpAddress(address, ipv4Prefix, ipv6Prefix) : '')
+        } else {
+          parts.push((await source(request)) ?? '')
+        }
+      }
+
+      // Only the hash is stored, so sessions do not keep client details.
+      return createHash('sha256').update(JSON.stringify(parts)).digest('base64url')
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  normalizeCookieOptions,
+  serializeExpiredCookie,
+  serializeSessionCookie
+} from './cookie.js'
+import { createCookieCipher } from './crypto.js'
+import type { JsonObject, StoredSession } from './types.js'
+
+const DEFAULT_MAX_COOKIE_SIZE = 4096
+
+type NormalizedCookie = ReturnType<typeof normalizeCookieOptions>
+
+type CookiePayload<TSession extends JsonObject> = {
+  id: string
+  session: StoredSession<TSession>
+}
+
+/** Session decoded from request cookies. */
+export interface CookieStoreEntry<TSession extends JsonObject> {
+  /** Session id carried inside the encrypted payload. */
+  id: string
+  /** Decrypted session payload. */
+  session: StoredSession<TSession>
+  /** `true` when the payload was encrypted with an older secret. */
+  rotated: boolean
+}
+
+/** Encrypted, chunked cookie codec used by the plugin's cookie-store mode. */
+export interface CookieSessionStore<TSession extends JsonObject> {
+  /** Names of the session cookies present in the request. */
+  names(cookies: Record<string, string>): string[]
+  /** Decrypt the session carried by the request cookies. */
+  read(cookies: Record<string, string>): Promise<CookieStoreEntry<TSession> | null>
+  /** Encrypt a session into `Set-Cookie` values, expiring chunks that are no longer used. */
+  write(
+    id: string,
+    session: StoredSession<TSession>,
+    cookies: Record<string, string>
+  ): Promise<string[]>
+  /** Expire the session cookie and every chunk present in the request. */
+  clear(cookies: Record<string, string>): string[]
+}
+
+const chunkName = (name: string, index: number): string => `${name}.${index}`
+
+/** Creates the encrypted cookie codec for one cookie name. */
+export const createCookieSessionStore = <TSession extends JsonObject>(
+  secrets: readonly string[],
+  cookie: NormalizedCookie,
+  maxCookieSize = DEFAULT_MAX_COOKIE_SIZE
+): CookieSessionStore<TSession> => {
+  const cipher = createCookieCipher(secrets)
+
+  const names = (cookies: Record<string, string>): string[] => {
+    const present: string[] = []
+
+    if (cookies[cookie.name] !== undefined) {
+      present.push(cookie.name)
+    }
+
+    for (let index = 0; cookies[chunkName(cookie.name, index)] !== undefined; index += 1) {
+      present.push(chunkName(cookie.name, index))
+    }
+
+    return present
+  }
+
+  const readSealed = (cookies: Record<string, string>): string | null => {
+    const single = cookies[cookie.name]
+    if (single !== undefined) {
+      return single
+    }
+
+    const chunks = names(cookies).map((name) => cookies[name])
+    return chunks.length > 0 ? chunks.join('') : null
+  }
+
+  const split = (sealed: string, expiresAt: number): string[] => {
+    if (serializeSessionCookie(cookie.name, sealed, expiresAt, cookie).length <= maxCookieSize) {
+      return [sealed]
+    }
+
+    // The payload length bounds the chunk count, so its digits cover the longest chunk name.
+    const overhead = serializeSessionCookie(
+      chunkName(cookie.name, sealed.length),
+      '',
+      expiresAt,
+      cookie
+    ).length
+    const chunkSize = maxCookieSize - overhead
+
+    if (chunkSize <= 0) {
+      throw new Error('`maxCookieSize` is too small to hold any session data.')
+    }
+
+    const chunks: string[] = []
+    for (let offset = 0; offset < sealed.length; offset += chunkSize) {
+      chunks.push(sealed.slice(offset, offset + chunkSize))
+    }
+
+    return chunks
+  }
+
+  return {
+    names,
+    async read(cookies) {
+      const sealed = readSealed(cookies)
+      if (!sealed) {
+        return null
+      }
+
+      const opened = await cipher.open(sealed)
+      if (!opened) {
+        return null
+      }
+
+      try {
+        const payload = JSON.parse(opened.plaintext) as CookiePayload<TSession>
+        return { id: payload.id, session: payload.session, rotated: opened.rotated }
+      } catch {
+        return null
+      }
+    },
+    async write(id, session, cookies) {
+      const payload: CookiePayload<TSession> = { id, session }
+      const sealed = await cipher.seal(JSON.stringify(payload))
+      const chunks = split(sealed, session.expiresAt)
+      const written =
+        chunks.length === 1
+          ? [cookie.name]
+          : chunks.map((_chunk, index) => chunkName(cookie.name, index))
+
+      const headers = written.map((name, index) =>
+        serializeSessionCookie(name, chunks[index]!, session.expiresAt, cookie)
+      )
+
+      for (const name of names(cookies)) {
+        if (!written.includes(name)) {
+          headers.push(serializeExpiredCookie(name, cookie))
+        }
+      }
+
+      return headers
+    },
+    clear(cookies) {
+      const present = names(cookies)
+      if (!present.includes(cookie.name)) {
+        present.unshift(cookie.name)
+      }
+
+      return present.map((name) => serializeExpiredCookie(name, cookie))
+    }
+  }
+}
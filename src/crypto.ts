@@ -0,0 +1,284 @@
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/** Encodes bytes as unpadded base64url. */
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Decodes unpadded base64url, returning `null` for malformed input. */
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> | null => {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    return null
+  }
+
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = new Uint8Array(binary.length)
+
+    for (let index = 0; index < binary.length; index += 1) {
+      bytes[index] = binary.charCodeAt(index)
+    }
+
+    return bytes
+  } catch {
+    return null
+  }
+}
+
+/** Result of verifying a signed cookie value. */
+export interface UnsignedValue {
+  /** Original value without its signature. */
+  value: string
+  /** `true` when the value was signed with a secret other than the newest one. */
+  rotated: boolean
+}
+
+/** HMAC signer for cookie values with secret rotation support. */
+export interface CookieSigner {
+  /** Sign a value with the newest secret. */
+  sign(value: string): Promise<string>
+  /** Verify a signed value against every configured secret. */
+  unsign(signed: string): Promise<UnsignedValue | null>
+}
+
+/**
+ * Creates an HMAC-SHA256 cookie signer.
+ *
+ * `secrets` is ordered newest first: values are always signed with `secrets[0]`,
+ * while older secrets are only accepted during verification.
+ */
+export const createCookieSigner = (secrets: readonly string[]): CookieSigner => {
+  if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+    throw new Error('Session cookie secrets must be non-empty strings.')
+  }
+
+  let keys: Promise<CryptoKey[]> | null = null
+
+  const getKeys = (): Promise<CryptoKey[]> =>
+    (keys ??= Promise.all(
+      secrets.map((secret) =>
+        crypto.subtle.importKey(
+          'raw',
+          encoder.encode(secret),
+          { name: 'HMAC', hash: 'SHA-256' },
+          false,
+          ['sign', 'verify']
+        )
+      )
+    ))
+
+  return {
+    async sign(value) {
+      const [key] = await getKeys()
+      const signature = await crypto.subtle.sign('HMAC', key!, encoder.encode(value))
+      return `${value}.${toBase64Url(new Uint8Array(signature))}`
+    },
+    async unsign(signed) {
+      const index = signed.lastIndexOf('.')
+      if (index <= 0) {
+        return null
+      }
+
+      const value = signed.slice(0, index)
+      const signature = fromBase64Url(signed.slice(index + 1))
+      if (!signature) {
+        return null
+      }
+
+      const payload = encoder.encode(value)
+      const candidates = await getKeys()
+
+      for (const [position, key] of candidates.entries()) {
+        if (await crypto.subtle.verify('HMAC', key, signature, payload)) {
+          return { value, rotated: position > 0 }
+        }
+      }
+
+      return null
+    }
+  }
+}
+
+/** Result of decrypting a sealed value. */
+export interface OpenedValue {
+  /** Decrypted plaintext. */
+  plaintext: string
+  /** `true` when the value was sealed with a secret other than the newest one. */
+  rotated: boolean
+}
+
+/** AES-GCM cipher for authenticated cookie payloads with secret rotation support. */
+export interface CookieCipher {
+  /** Encrypt a value with the newest secret. */
+  seal(plaintext: string): Promise<string>
+  /** Decrypt a value with any configured secret. */
+  open(sealed: string): Promise<OpenedValue | null>
+}
+
+const IV_LENGTH = 12
+
+/** Imports an AES-256-GCM key from the SHA-256 digest of a secret. */
+const importAesKey = async (secret: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    'raw',
+    await crypto.subtle.digest('SHA-256', encoder.encode(secret)),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  )
+
+/** Encrypts with a random IV and returns `base64url(iv || ciphertext)`. */
+const sealWithKey = async (
+  key: CryptoKey,
+  plaintext: string,
+  additionalData?: string
+): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      ...(additionalData === undefined ? {} : { additionalData: encoder.encode(additionalData) })
+    },
+    key,
+    encoder.encode(plaintext)
+  )
+  const sealed = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+  sealed.set(iv)
+  sealed.set(new Uint8Array(ciphertext), IV_LENGTH)
+  return toBase64Url(sealed)
+}
+
+/** Decrypts a value produced by `sealWithKey`, returning `null` when it does not authenticate. */
+const openWithKey = async (
+  key: CryptoKey,
+  sealed: string,
+  additionalData?: string
+): Promise<string | null> => {
+  const bytes = fromBase64Url(sealed)
+  if (!bytes || bytes.length <= IV_LENGTH) {
+    return null
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: bytes.subarray(0, IV_LENGTH),
+        ...(additionalData === undefined ? {} : { additionalData: encoder.encode(additionalData) })
+      },
+      key,
+      bytes.subarray(IV_LENGTH)
+    )
+    return decoder.decode(plaintext)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Creates an AES-256-GCM cipher keyed by the SHA-256 digest of each secret.
+ *
+ * Sealed values are `base64url(iv || ciphertext)`; `secrets` is ordered newest first.
+ */
+export const createCookieCipher = (secrets: readonly string[]): CookieCipher => {
+  if (secrets.length === 0 || secrets.some((secret) => !secret)) {
+    throw new Error('Session cookie secrets must be non-empty strings.')
+  }
+
+  let keys: Promise<CryptoKey[]> | null = null
+
+  const getKeys = (): Promise<CryptoKey[]> => (keys ??= Promise.all(secrets.map(importAesKey)))
+
+  return {
+    async seal(plaintext) {
+      const [key] = await getKeys()
+      return sealWithKey(key!, plaintext)
+    },
+    async open(sealed) {
+      const candidates = await getKeys()
+
+      for (const [position, key] of candidates.entries()) {
+        const plaintext = await openWithKey(key, sealed)
+        if (plaintext !== null) {
+          return { plaintext, rotated: position > 0 }
+        }
+      }
+
+      return null
+    }
+  }
+}
+
+/** Encryption key identified by `id` in the values it seals. */
+export interface EncryptionKey {
+  /** Stable key id stored next to each ciphertext. */
+  id: string
+  /** Secret the AES-256-GCM key is derived from. */
+  secret: string
+}
+
+/** Value sealed by a keyring. */
+export interface KeyringSealed {
+  /** Id of the key that sealed the value. */
+  keyId: string
+  /** `base64url(iv || ciphertext)`. */
+  ciphertext: string
+}
+
+/** AES-GCM cipher that records which key sealed each value. */
+export interface Keyring {
+  /** Encrypt a value with the newest key, bound to `context`. */
+  seal(plaintext: string, context: string): Promise<KeyringSealed>
+  /** Decrypt a value with the key it names, or return `null` when that fails. */
+  open(sealed: KeyringSealed, context: string): Promise<string | null>
+}
+
+/**
+ * Creates an AES-256-GCM keyring. `keys` is ordered newest first: values are sealed with
+ * `keys[0]` and opened with whichever key their `keyId` names.
+ */
+export const createKeyring = (keys: readonly EncryptionKey[]): Keyring => {
+  if (keys.length === 0 || keys.some((key) => !key.id || !key.secret)) {
+    throw new Error('Encryption keys must have a non-empty `id` and `secret`.')
+  }
+
+  if (new Set(keys.map((key) => key.id)).size !== keys.length) {
+    throw new Error('Encryption key ids must be unique.')
+  }
+
+  const imported = new Map<string, Promise<CryptoKey>>()
+
+  const getKey = (id: string): Promise<CryptoKey> | null => {
+    const entry = keys.find((key) => key.id === id)
+    if (!entry) {
+      return null
+    }
+
+    let key = imported.get(id)
+    if (!key) {
+      key = importAesKey(entry.secret)
+      imported.set(id, key)
+    }
+
+    return key
+  }
+
+  return {
+    async seal(plaintext, context) {
+      const keyId = keys[0]!.id
+      return { keyId, ciphertext: await sealWithKey((await getKey(keyId))!, plaintext, context) }
+    },
+    async open(sealed, context) {
+      const key = getKey(sealed.keyId)
+      return key ? openWithKey(await key, sealed.ciphertext, context) : null
+    }
+  }
+}
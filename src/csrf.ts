@@ -0,0 +1,34 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+const SECRET_BYTES = 18
+const SALT_BYTES = 8
+
+const digest = (secret: string, salt: string): string =>
+  createHmac('sha256', secret).update(salt).digest('base64url')
+
+/** Creates a random per-session CSRF secret. */
+export const createCsrfSecret = (): string => randomBytes(SECRET_BYTES).toString('base64url')
+
+/**
+ * Creates a salted CSRF token for a session secret.
+ *
+ * A fresh salt is used on every call, so tokens differ between responses while
+ * all of them stay valid for the same secret.
+ */
+export const createCsrfToken = (secret: string): string => {
+  const salt = randomBytes(SALT_BYTES).toString('base64url')
+  return `${salt}.${digest(secret, salt)}`
+}
+
+/** Checks a submitted CSRF token against the session secret in constant time. */
+export const verifyCsrfToken = (secret: string, token: string): boolean => {
+  const index = token.indexOf('.')
+  if (index <= 0) {
+    return false
+  }
+
+  const expected = Buffer.from(digest(secret, token.slice(0, index)))
+  const actual = Buffer.from(token.slice(index + 1))
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
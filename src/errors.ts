@@ -0,0 +1,39 @@
+/**
+ * Thrown when a compare-and-set write finds that the stored session changed
+ * since it was loaded. Elysia responds with `409 Conflict` when it is not handled.
+ */
+export class SessionConflictError extends Error {
+  /** HTTP status used by Elysia's default error handler. */
+  readonly status = 409
+
+  /** Creates a conflict error for one session id. */
+  constructor(
+    /** Id of the session that was written concurrently. */
+    readonly sessionId: string,
+    /** Version the writer expected to replace. */
+    readonly expectedVersion: number
+  ) {
+    super(`Session was modified concurrently (expected version ${expectedVersion}).`)
+    this.name = 'SessionConflictError'
+  }
+}
+
+/**
+ * Thrown when session data does not match the plugin's `schema`, either when a handler
+ * saves invalid data or on load with `invalidSession: 'throw'`.
+ */
+export class SessionValidationError extends Error {
+  /** HTTP status used by Elysia's default error handler. */
+  readonly status = 500
+
+  /** Creates a validation error with the schema's issue messages. */
+  constructor(
+    /** Id of the invalid session, or `null` before one is assigned. */
+    readonly sessionId: string | null,
+    /** Messages reported by the schema. */
+    readonly issues: string[]
+  ) {
+    super(`Session data does not match the schema: ${issues.join('; ')}`)
+    this.name = 'SessionValidationError'
+  }
+}
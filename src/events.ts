@@ -0,0 +1,40 @@
+import type {
+  JsonObject,
+  SessionEventEmitter,
+  SessionEventListener,
+  SessionEventMap
+} from './types.js'
+
+/** Listener of any event. `emit` restores the signature of the event it dispatches. */
+type StoredListener = (...args: never[]) => unknown
+
+/**
+ * Creates a typed emitter for session lifecycle events. Pass it to the plugin's `events` option
+ * to observe sessions from code that does not own the plugin configuration.
+ */
+export const createSessionEvents = <
+  TSession extends JsonObject = JsonObject
+>(): SessionEventEmitter<TSession> => {
+  const listeners = new Map<keyof SessionEventMap<TSession>, StoredListener[]>()
+
+  const off = (event: keyof SessionEventMap<TSession>, listener: StoredListener): void => {
+    listeners.set(
+      event,
+      (listeners.get(event) ?? []).filter((existing) => existing !== listener)
+    )
+  }
+
+  return {
+    on(event, listener) {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener])
+      return () => off(event, listener)
+    },
+    off,
+    async emit(event, ...args) {
+      // Iterates a snapshot, so listeners may unsubscribe while the event is dispatched.
+      for (const listener of listeners.get(event) ?? []) {
+        await (listener as SessionEventListener<TSession, typeof event>)(...args)
+      }
+    }
+  }
+}
@@ -1,29 +1,83 @@
+export { SessionConflictError, SessionValidationError } from './errors.js'
+export { createSessionEvents } from './events.js'
 export { betterSession } from './plugin.js'
+export type { EncryptionKey } from './crypto.js'
 export {
   createDrizzleSessionAdapter,
   createFileSessionAdapter,
+  createLocalInvalidationBus,
   createMemorySessionAdapter,
+  createRedisInvalidationBus,
   createRedisSessionAdapter,
-  FileSessionAdapter
+  createSqliteSessionAdapter,
+  createTieredSessionAdapter,
+  FileSessionAdapter,
+  sessionTable,
+  ShardedFileSessionAdapter,
+  withEncryption
 } from './adapters/index.js'
 export type {
+  DrizzleDialect,
+  DrizzleSessionAdapter,
   DrizzleSessionAdapterOptions,
   DrizzleSessionColumnMap,
+  DrizzleSessionColumns,
+  EncryptedSessionData,
+  EncryptionOptions,
   FileSessionAdapterOptions,
+  MemorySessionAdapter,
   MemorySessionAdapterOptions,
+  MemorySessionStats,
+  RedisInvalidationBusOptions,
   RedisSessionAdapterOptions,
-  RedisSessionClient
+  RedisSessionClient,
+  SessionTableOptions,
+  ShardedFileSessionAdapterOptions,
+  SqliteSessionAdapterOptions,
+  TieredSessionAdapter,
+  TieredSessionAdapterOptions
 } from './adapters/index.js'
 export type {
+  CookieStoreOptions,
+  DestroyUserSessionsOptions,
+  InferSessionSchema,
   JsonArray,
   JsonObject,
   JsonPrimitive,
   JsonValue,
   SameSite,
+  SessionBindingAction,
+  SessionBindingMismatch,
+  SessionBindingOptions,
+  SessionBindingPolicy,
   SessionContext,
   SessionCookieOptions,
+  SessionConflictPolicy,
+  SessionCsrfOptions,
+  SessionEntriesOptions,
+  SessionEvent,
+  SessionEventEmitter,
+  SessionEventListener,
+  SessionEventMap,
+  SessionExpiredEvent,
+  SessionFingerprintSource,
+  SessionHeaderTransport,
+  SessionInvalidation,
+  SessionInvalidationBus,
+  SessionInvalidPolicy,
+  SessionMergeContext,
+  SessionMergeFunction,
+  SessionMetadataField,
+  SessionMigration,
+  SessionPatch,
   SessionPluginOptions,
+  SessionSchema,
+  SessionSetOptions,
   SessionStoreAdapter,
+  SessionTransport,
   SessionUpdater,
+  SessionUserKey,
+  StandardSchemaV1,
+  StandardSchemaV1Result,
   StoredSession
 } from './types.js'
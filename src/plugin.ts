@@ -1,29 +1,65 @@
 import { Elysia } from 'elysia'
+import { resolveBinding } from './binding.js'
 import {
   normalizeCookieOptions,
   parseCookies,
   serializeExpiredCookie,
   serializeSessionCookie
 } from './cookie.js'
+import { createCookieSessionStore } from './cookie-store.js'
+import { createCookieSigner } from './crypto.js'
+import { createCsrfSecret, createCsrfToken, verifyCsrfToken } from './csrf.js'
+import { SessionConflictError, SessionValidationError } from './errors.js'
+import { createSessionValidator } from './schema.js'
+import { readHeaderTransport, resolveTransports, type ResolvedTransport } from './transport.js'
 import type {
   JsonObject,
+  SessionBindingAction,
   SessionContext,
+  SessionEventListener,
+  SessionEventMap,
+  SessionMetadataField,
+  SessionPatch,
   SessionPluginOptions,
   StoredSession
 } from './types.js'
 
 const DEFAULT_TTL = 1000 * 60 * 60 * 24 * 7
 const AUTO_SAVE = Symbol('better-session:auto-save')
+const VERIFY_CSRF = Symbol('better-session:verify-csrf')
+const CSRF_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
 
 type HeaderValue = string | string[] | undefined
 type MutableHeaders = Record<string, HeaderValue>
 type PersistMode = 'auto' | 'manual'
 type InternalSession<TSession extends JsonObject> = SessionContext<TSession> & {
   [AUTO_SAVE]: (mode: PersistMode) => Promise<void>
+  [VERIFY_CSRF]: (token: string | null) => boolean
 }
 
 const createSessionId = (): string => crypto.randomUUID()
 
+const resolveSecrets = (secret?: string, secrets?: string[]): string[] | null => {
+  if (secret !== undefined && secrets !== undefined) {
+    throw new Error('Configure either `secret` or `secrets`, not both.')
+  }
+
+  if (secrets !== undefined) {
+    return secrets
+  }
+
+  return secret !== undefined ? [secret] : null
+}
+
+const readBodyField = (body: unknown, field: string): string | null => {
+  if (typeof body !== 'object' || body === null) {
+    return null
+  }
+
+  const value = (body as Record<string, unknown>)[field]
+  return typeof value === 'string' ? value : null
+}
+
 const appendSetCookie = (headers: MutableHeaders, cookieValue: string): void => {
   const existing = headers['set-cookie']
 
@@ -43,49 +79,409 @@ const appendSetCookie = (headers: MutableHeaders, cookieValue: string): void =>
  * The plugin exposes `session` on request context and persists changes automatically
  * after each handler. Pass `createOnRequest: false` to enable lazy session creation.
  */
-export const betterSession = <TSession extends JsonObject = JsonObject>(
-  options: SessionPluginOptions<TSession>
+export const betterSession = <
+  TSession extends JsonObject = JsonObject,
+  const TDecorateAs extends string = 'session'
+>(
+  options: SessionPluginOptions<TSession, TDecorateAs>
 ) => {
+  const decorateAs = options.decorateAs ?? ('session' as TDecorateAs)
+  const name = options.name ?? decorateAs
   const ttl = options.ttl ?? DEFAULT_TTL
+  const idleTimeout = options.idleTimeout ?? ttl
+  const absoluteTimeout = options.absoluteTimeout
   const rolling = options.rolling ?? true
+  const rollingThreshold = options.rollingThreshold ?? 0
   const createOnRequest = options.createOnRequest ?? true
-  const adapter = options.adapter
+  const adapter = options.adapter ?? null
   const cookie = normalizeCookieOptions(options.cookie)
   const generateId = options.generateId ?? createSessionId
   const initialData = options.initialData ?? (() => ({}) as TSession)
+  const secrets = resolveSecrets(options.secret, options.secrets)
+  const signer = secrets ? createCookieSigner(secrets) : null
+  const transports = resolveTransports(options.transport)
+  const binding = resolveBinding(options.binding)
+  const csrfOptions = options.csrf === true ? {} : options.csrf || null
+  const csrf = csrfOptions
+    ? {
+        header: csrfOptions.header ?? 'x-csrf-token',
+        field: csrfOptions.field ?? '_csrf',
+        methods: (csrfOptions.methods ?? CSRF_METHODS).map((method) => method.toUpperCase())
+      }
+    : null
+
+  if (!decorateAs || !name) {
+    throw new Error('Session `name` and `decorateAs` must not be empty.')
+  }
 
   if (ttl <= 0) {
     throw new Error('Session TTL must be greater than zero.')
   }
 
-  return new Elysia({
-    name: 'better-session',
+  if (idleTimeout <= 0) {
+    throw new Error('Session idle timeout must be greater than zero.')
+  }
+
+  if (absoluteTimeout !== undefined && absoluteTimeout <= 0) {
+    throw new Error('Session absolute timeout must be greater than zero.')
+  }
+
+  if (rollingThreshold < 0 || rollingThreshold >= 1) {
+    throw new Error('Session rolling threshold must be at least 0 and less than 1.')
+  }
+
+  if (Boolean(adapter) === Boolean(options.cookieStore)) {
+    throw new Error('Configure exactly one session store: use either `adapter` or `cookieStore`.')
+  }
+
+  if (options.cookieStore && signer) {
+    throw new Error(
+      'Cookie signing secrets do not apply to `cookieStore`; set `cookieStore.secrets` instead.'
+    )
+  }
+
+  // Adapters that list their metadata fields drop the others on write.
+  const persistsMetadata = (field: SessionMetadataField): boolean =>
+    !adapter?.metadata || adapter.metadata.includes(field)
+
+  const requireMetadata = (field: SessionMetadataField, feature: string): void => {
+    if (!persistsMetadata(field)) {
+      throw new Error(`${feature} requires an adapter that persists session \`${field}\`.`)
+    }
+  }
+
+  if (csrf) {
+    requireMetadata('csrfSecret', 'CSRF protection')
+  }
+
+  if (absoluteTimeout !== undefined) {
+    requireMetadata('createdAt', 'The absolute timeout')
+  }
+
+  if (binding) {
+    requireMetadata('fingerprint', 'Session binding')
+  }
+
+  if (options.cookieStore && transports.some((transport) => transport.type !== 'cookie')) {
+    throw new Error(
+      '`cookieStore` keeps session data in cookies and only supports the cookie transport.'
+    )
+  }
+
+  const computeExpiresAt = (now: number, createdAt: number): number =>
+    absoluteTimeout === undefined
+      ? now + idleTimeout
+      : Math.min(now + idleTimeout, createdAt + absoluteTimeout)
+
+  const isExpired = (stored: StoredSession<TSession>, now: number): boolean =>
+    stored.expiresAt <= now ||
+    (absoluteTimeout !== undefined && (stored.createdAt ?? now) + absoluteTimeout <= now)
+
+  const validate = options.schema ? createSessionValidator(options.schema) : null
+  const invalidSession = options.invalidSession ?? 'reset'
+  const dataVersion = options.version
+  const migrations = options.migrations ?? {}
+
+  if (dataVersion === undefined) {
+    if (options.migrations) {
+      throw new Error('Session migrations require the `version` option.')
+    }
+  } else {
+    if (!Number.isInteger(dataVersion) || dataVersion < 1) {
+      throw new Error('Session data version must be a positive integer.')
+    }
+
+    for (let target = 2; target <= dataVersion; target += 1) {
+      if (!migrations[target]) {
+        throw new Error(`Missing session migration to version ${target}.`)
+      }
+    }
+
+    // Without a stored version, migrated data would be migrated again on every load.
+    requireMetadata('schemaVersion', 'Session data versioning')
+  }
+
+  const conflict = options.conflict ?? 'last-write-wins'
+
+  if (conflict !== 'last-write-wins' && adapter?.compareAndSet === false) {
+    throw new Error('The `conflict` policy requires an adapter that supports compare-and-set.')
+  }
+  const merge = typeof conflict === 'object' ? conflict.merge : null
+  const mergeRetries = typeof conflict === 'object' ? (conflict.retries ?? 3) : 0
+  const sweepInterval = options.sweepInterval
+  const pruneExpired = adapter?.pruneExpired?.bind(adapter)
+
+  if (sweepInterval !== undefined) {
+    if (sweepInterval <= 0) {
+      throw new Error('Session sweep interval must be greater than zero.')
+    }
+
+    if (!pruneExpired) {
+      throw new Error('Session sweeping requires an adapter that implements `pruneExpired`.')
+    }
+  }
+
+  let sweeper: ReturnType<typeof setInterval> | null = null
+  let sweeping = false
+
+  const sweep = async (): Promise<void> => {
+    if (sweeping || !pruneExpired) {
+      return
+    }
+
+    sweeping = true
+
+    try {
+      await pruneExpired()
+    } catch (error) {
+      options.onSweepError?.(error)
+    } finally {
+      sweeping = false
+    }
+  }
+
+  const cookieStore = options.cookieStore
+    ? createCookieSessionStore<TSession>(
+        resolveSecrets(options.cookieStore.secret, options.cookieStore.secrets) ?? [],
+        cookie,
+        options.cookieStore.maxCookieSize
+      )
+    : null
+
+  const hooks: {
+    [TEvent in keyof SessionEventMap<TSession>]?: SessionEventListener<TSession, TEvent>
+  } = {
+    create: options.onCreate,
+    load: options.onLoad,
+    save: options.onSave,
+    regenerate: options.onRegenerate,
+    destroy: options.onDestroy,
+    expired: options.onExpired
+  }
+
+  const emit = async <TEvent extends keyof SessionEventMap<TSession>>(
+    event: TEvent,
+    ...args: SessionEventMap<TSession>[TEvent]
+  ): Promise<void> => {
+    await hooks[event]?.(...args)
+    await options.events?.emit(event, ...args)
+  }
+
+  const readSession = (context: object): InternalSession<JsonObject> =>
+    (context as Record<string, InternalSession<JsonObject>>)[decorateAs]!
+
+  const plugin = new Elysia({
+    name: `better-session:${name}`,
     seed: {
+      decorateAs,
       ttl,
       rolling,
       createOnRequest,
-      cookieName: cookie.name
+      cookieName: cookie.name,
+      transports
     }
   })
-    .resolve({ as: 'scoped' }, async ({ request, set }) => {
+    .onStart(() => {
+      if (sweepInterval !== undefined && !sweeper) {
+        sweeper = setInterval(() => void sweep(), sweepInterval)
+      }
+    })
+    .onStop(() => {
+      if (sweeper) {
+        clearInterval(sweeper)
+        sweeper = null
+      }
+    })
+    .resolve({ as: 'scoped' }, async ({ request, set, server }) => {
       const headers = ((set.headers ??= {}) as MutableHeaders)
       const incomingCookies = parseCookies(request.headers.get('cookie'))
-      const incomingId = incomingCookies[cookie.name]
+      const readTransport = (transport: ResolvedTransport): string | null => {
+        if (transport.type === 'header') {
+          return readHeaderTransport(transport, request.headers)
+        }
+
+        // The cookie store reads its own cookies, so only their presence matters here.
+        if (cookieStore) {
+          return cookieStore.names(incomingCookies).length > 0 ? '' : null
+        }
+
+        return incomingCookies[cookie.name] ?? null
+      }
+
+      // The first transport carrying a value supplies the id and receives the response.
+      let incomingTransport: ResolvedTransport | undefined
+      let incomingValue: string | null = null
+
+      for (const transport of transports) {
+        incomingValue = readTransport(transport)
+
+        if (incomingValue !== null) {
+          incomingTransport = transport
+          break
+        }
+      }
+
+      const responseTransport = incomingTransport ?? transports[0]!
+      const hasIncomingId = incomingTransport !== undefined
       const now = Date.now()
 
-      const stored = incomingId ? await adapter.get(incomingId) : null
+      let incomingId: string | undefined
+      let stored: StoredSession<TSession> | null = null
+      let rotated = false
+
+      if (cookieStore) {
+        const entry = await cookieStore.read(incomingCookies)
+
+        if (entry) {
+          incomingId = entry.id
+          stored = entry.session
+          rotated = entry.rotated
+        }
+      } else {
+        const unsigned = incomingValue && signer ? await signer.unsign(incomingValue) : null
+        incomingId = (signer ? unsigned?.value : incomingValue) || undefined
+        rotated = Boolean(unsigned?.rotated)
+        stored = incomingId && adapter ? await adapter.get(incomingId) : null
+      }
+
+      if (stored && isExpired(stored, now)) {
+        if (incomingId && adapter) {
+          await adapter.delete(incomingId)
+        }
+
+        stored = null
+      }
+
+      if (incomingId && !stored) {
+        await emit('expired', { id: incomingId, request })
+      }
+
+      let issues: string[] | null = null
+      let upgraded = false
+
+      if (stored && dataVersion !== undefined) {
+        const storedVersion = stored.schemaVersion ?? 1
+
+        if (storedVersion > dataVersion) {
+          issues = [`Session data version ${storedVersion} is newer than ${dataVersion}.`]
+        } else if (storedVersion < dataVersion) {
+          let data: JsonObject = stored.data
+          let target = storedVersion + 1
+
+          try {
+            for (; target <= dataVersion; target += 1) {
+              data = await migrations[target]!(data)
+            }
+
+            stored = { ...stored, data: data as TSession }
+            upgraded = true
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error)
+            issues = [`Session migration to version ${target} failed: ${reason}`]
+          }
+        }
+      }
+
+      if (stored && validate && !issues) {
+        const result = await validate(stored.data)
+
+        if (result.valid) {
+          stored = { ...stored, data: result.data }
+        } else {
+          issues = result.issues
+        }
+      }
+
+      if (stored && issues) {
+        if (invalidSession === 'throw') {
+          throw new SessionValidationError(incomingId ?? null, issues)
+        }
+
+        if (invalidSession === 'destroy') {
+          if (incomingId && adapter) {
+            await adapter.delete(incomingId)
+          }
+
+          await emit('destroy', { id: incomingId!, data: stored.data, request })
+          stored = null
+        } else {
+          stored = { ...stored, data: initialData() }
+          upgraded = true
+        }
+      }
+
+      const fingerprint = binding
+        ? await binding.fingerprint(request, (target) => server?.requestIP(target)?.address ?? null)
+        : undefined
+
+      if (binding && stored?.fingerprint && stored.fingerprint !== fingerprint) {
+        const bindingAction: SessionBindingAction =
+          typeof binding.policy === 'function'
+            ? await binding.policy({ id: incomingId!, data: stored.data, request })
+            : binding.policy
+
+        if (bindingAction === 'destroy') {
+          if (incomingId && adapter) {
+            await adapter.delete(incomingId)
+          }
+
+          await emit('destroy', { id: incomingId!, data: stored.data, request })
+        }
+
+        // Both actions start this client on a fresh session; `regenerate` leaves the stored one
+        // to its owner.
+        if (bindingAction !== 'ignore') {
+          stored = null
+        }
+      }
+
+      if (stored) {
+        await emit('load', { id: incomingId!, data: stored.data, request })
+      }
+
+      const createdAt = stored?.createdAt ?? now
+
+      const clearId = (): void => {
+        // Header clients are told to drop their id with an empty response header.
+        if (responseTransport.type === 'header') {
+          headers[responseTransport.responseHeader] = ''
+          return
+        }
+
+        const values = cookieStore
+          ? cookieStore.clear(incomingCookies)
+          : [serializeExpiredCookie(cookie.name, cookie)]
+
+        for (const value of values) {
+          appendSetCookie(headers, value)
+        }
+      }
 
       if (!stored) {
-        if (incomingId) {
-          appendSetCookie(headers, serializeExpiredCookie(cookie.name, cookie))
+        if (hasIncomingId) {
+          clearId()
         }
       }
 
       const state = {
         id: stored ? incomingId ?? null : createOnRequest ? generateId() : null,
         data: stored ? stored.data : initialData(),
-        expiresAt: stored ? stored.expiresAt : now + ttl,
+        createdAt,
+        version: stored?.version ?? 0,
+        versionId: stored ? (incomingId ?? null) : null,
+        base: stored && merge ? structuredClone(stored.data) : null,
+        expiresAt: stored ? stored.expiresAt : computeExpiresAt(now, createdAt),
         isNew: !stored,
+        // Whether the session exists in the store, under this or a regenerated id.
+        exists: Boolean(stored),
+        flash: stored?.flash ?? {},
+        nextFlash: {} as JsonObject,
+        flashConsumed: false,
+        changedKeys: new Set<string>(),
+        replaced: false,
+        csrfSecret: stored?.csrfSecret,
+        fingerprint: stored ? stored.fingerprint : fingerprint,
+        resign: Boolean(stored && rotated),
         destroyed: false,
         revision: 0,
         savedRevision: 0,
@@ -106,54 +502,268 @@ export const betterSession = <TSession extends JsonObject = JsonObject>(
         state.committed = false
       }
 
+      const markChanged = (keys: string[]): void => {
+        for (const key of keys) {
+          state.changedKeys.add(key)
+        }
+
+        markDirty()
+      }
+
+      const markReplaced = (): void => {
+        state.replaced = true
+        markDirty()
+      }
+
+      // Reset and migrated data is written back in full at the current version.
+      if (upgraded) {
+        markReplaced()
+      }
+
+      // Sessions created before binding was enabled are bound on their next request.
+      if (stored && fingerprint && !stored.fingerprint) {
+        state.fingerprint = fingerprint
+        markDirty()
+      }
+
+      const snapshot = (): StoredSession<TSession> => {
+        const toStore: StoredSession<TSession> = {
+          data: state.data,
+          expiresAt: state.expiresAt,
+          createdAt: state.createdAt
+        }
+
+        if (Object.keys(state.nextFlash).length > 0) {
+          toStore.flash = state.nextFlash
+        }
+
+        if (state.csrfSecret) {
+          toStore.csrfSecret = state.csrfSecret
+        }
+
+        if (state.fingerprint) {
+          toStore.fingerprint = state.fingerprint
+        }
+
+        if (dataVersion !== undefined) {
+          toStore.schemaVersion = dataVersion
+        }
+
+        return toStore
+      }
+
+      const writeId = async (id: string, toStore: StoredSession<TSession>): Promise<void> => {
+        // Header clients keep their id, so it is only sent when it changes or is re-signed.
+        if (responseTransport.type === 'header') {
+          if (id !== incomingId || state.resign) {
+            headers[responseTransport.responseHeader] = signer ? await signer.sign(id) : id
+          }
+
+          state.resign = false
+          return
+        }
+
+        const values = cookieStore
+          ? await cookieStore.write(id, toStore, incomingCookies)
+          : [
+              serializeSessionCookie(
+                cookie.name,
+                signer ? await signer.sign(id) : id,
+                toStore.expiresAt,
+                cookie
+              )
+            ]
+
+        for (const value of values) {
+          appendSetCookie(headers, value)
+        }
+
+        state.resign = false
+      }
+
+      const storeSession = async (
+        id: string,
+        toStore: StoredSession<TSession>,
+        refreshOnly: boolean
+      ): Promise<void> => {
+        if (!adapter) {
+          return
+        }
+
+        // Sessions loaded under the same id only ship the keys touched by this request.
+        if (
+          adapter.patch &&
+          conflict === 'last-write-wins' &&
+          state.versionId === id &&
+          !state.replaced
+        ) {
+          const { data, ...meta } = toStore
+          const changes: SessionPatch<TSession> = {
+            ...meta,
+            version: state.version + 1,
+            set: {},
+            unset: []
+          }
+
+          for (const key of state.changedKeys as Set<Extract<keyof TSession, string>>) {
+            if (Object.prototype.hasOwnProperty.call(data, key)) {
+              changes.set[key] = data[key]
+            } else {
+              changes.unset.push(key)
+            }
+          }
+
+          if (await adapter.patch(id, changes)) {
+            state.version += 1
+            return
+          }
+        }
+
+        // A refresh keeps the version, so parallel reads of one session never conflict. A
+        // conflict means another request wrote the session since, which refreshed it too.
+        if (refreshOnly && conflict !== 'last-write-wins' && state.versionId === id) {
+          try {
+            await adapter.set(
+              id,
+              { ...toStore, version: state.version },
+              { expectedVersion: state.version }
+            )
+          } catch (error) {
+            if (!(error instanceof SessionConflictError)) {
+              throw error
+            }
+          }
+
+          return
+        }
+
+        if (conflict === 'last-write-wins' || state.versionId !== id) {
+          const version = state.versionId === id ? state.version + 1 : 1
+          await adapter.set(id, { ...toStore, version })
+          state.version = version
+          state.versionId = id
+          return
+        }
+
+        for (let attempt = 0; ; attempt += 1) {
+          const expectedVersion = state.version
+
+          try {
+            await adapter.set(
+              id,
+              { ...toStore, data: state.data, version: expectedVersion + 1 },
+              { expectedVersion }
+            )
+            state.version = expectedVersion + 1
+            return
+          } catch (error) {
+            if (!(error instanceof SessionConflictError) || !merge || attempt >= mergeRetries) {
+              throw error
+            }
+
+            const latest = await adapter.get(id)
+            if (!latest) {
+              throw error
+            }
+
+            state.data = await merge({
+              base: state.base ?? initialData(),
+              current: latest.data,
+              attempted: state.data
+            })
+            state.base = structuredClone(latest.data)
+            state.version = latest.version ?? 0
+          }
+        }
+      }
+
       const persist = async (mode: PersistMode): Promise<void> => {
         if (state.committed) {
           return
         }
 
         if (state.destroyed) {
-          if (state.id) {
+          if (state.id && adapter) {
             await adapter.delete(state.id)
           }
 
-          if (incomingId || state.id) {
-            appendSetCookie(headers, serializeExpiredCookie(cookie.name, cookie))
+          if (hasIncomingId || state.id) {
+            clearId()
           }
 
           state.savedRevision = state.revision
           state.committed = true
+
+          if (state.id && state.exists) {
+            state.exists = false
+            await emit('destroy', { id: state.id, data: state.data, request })
+          }
+
           return
         }
 
-        const dirty = state.savedRevision !== state.revision
+        const flashPending = !state.flashConsumed && Object.keys(state.flash).length > 0
+        const dirty = state.savedRevision !== state.revision || flashPending
+
+        const now = Date.now()
+        const expiresAt = computeExpiresAt(now, state.createdAt)
+        // A pure refresh waits until `rollingThreshold` of the idle window has passed.
+        const refreshDue =
+          rolling &&
+          Boolean(incomingId) &&
+          expiresAt - state.expiresAt >= idleTimeout * rollingThreshold
 
         const shouldWrite =
           state.isNew
             ? createOnRequest || Boolean(state.id) || dirty || mode === 'manual'
-            : dirty || (rolling && Boolean(incomingId))
+            : dirty || refreshDue
 
         if (!shouldWrite) {
+          if (state.resign && state.id) {
+            await writeId(state.id, snapshot())
+          }
+
           state.committed = true
           return
         }
 
         const id = ensureId()
-        state.expiresAt = Date.now() + ttl
-        const toStore: StoredSession<TSession> = {
-          data: state.data,
-          expiresAt: state.expiresAt
-        }
+        state.expiresAt = expiresAt
+        const toStore = snapshot()
+        const touched =
+          !dirty &&
+          state.versionId === id &&
+          Boolean(adapter?.touch) &&
+          (await adapter!.touch!(id, expiresAt))
+
+        if (!touched) {
+          if (validate) {
+            const result = await validate(state.data)
+            if (!result.valid) {
+              throw new SessionValidationError(id, result.issues)
+            }
+          }
 
-        await adapter.set(id, toStore)
+          await storeSession(id, toStore, !dirty)
+        }
 
-        appendSetCookie(
-          headers,
-          serializeSessionCookie(cookie.name, id, state.expiresAt, cookie)
-        )
+        await writeId(id, toStore)
 
         state.isNew = false
+        state.changedKeys.clear()
+        state.replaced = false
+        state.flashConsumed = true
         state.savedRevision = state.revision
         state.committed = true
+
+        const event = { id, data: state.data, request }
+
+        if (!state.exists) {
+          state.exists = true
+          await emit('create', event)
+        }
+
+        await emit('save', event)
       }
 
       const session: InternalSession<TSession> = {
@@ -174,23 +784,51 @@ export const betterSession = <TSession extends JsonObject = JsonObject>(
         },
         set(key, value) {
           state.data[key] = value
-          markDirty()
+          markChanged([String(key)])
         },
         assign(patch) {
           Object.assign(state.data, patch)
-          markDirty()
+          markChanged(Object.keys(patch))
         },
         replace(next) {
           state.data = next
-          markDirty()
+          markReplaced()
         },
         async update(updater) {
           state.data = await updater(state.data)
-          markDirty()
+          markReplaced()
         },
         delete(key) {
           delete state.data[key]
+          markChanged([String(key)])
+        },
+        flash(key, value) {
+          if (!persistsMetadata('flash')) {
+            throw new Error('Flash values require an adapter that persists session `flash`.')
+          }
+
+          state.nextFlash[key] = value
+          markDirty()
+        },
+        getFlash(key) {
+          if (!Object.prototype.hasOwnProperty.call(state.flash, key)) {
+            return undefined
+          }
+
           markDirty()
+          return state.flash[key] as never
+        },
+        csrfToken() {
+          if (!csrf) {
+            throw new Error('CSRF protection is disabled. Enable it with the `csrf` option.')
+          }
+
+          if (!state.csrfSecret) {
+            state.csrfSecret = createCsrfSecret()
+            markDirty()
+          }
+
+          return createCsrfToken(state.csrfSecret)
         },
         async regenerate() {
           if (state.destroyed) {
@@ -201,12 +839,27 @@ export const betterSession = <TSession extends JsonObject = JsonObject>(
           const nextId = generateId()
           state.id = nextId
           state.isNew = true
+
+          if (state.csrfSecret) {
+            state.csrfSecret = createCsrfSecret()
+          }
+
+          // The new id is bound to the client that requested it.
+          if (fingerprint) {
+            state.fingerprint = fingerprint
+          }
+
           markDirty()
 
           if (previousId !== nextId) {
-            if (previousId) {
+            if (previousId && adapter) {
               await adapter.delete(previousId)
             }
+
+            if (previousId && state.exists) {
+              const event = { id: nextId, data: state.data, request }
+              await emit('regenerate', previousId, nextId, event)
+            }
           }
 
           return nextId
@@ -223,14 +876,37 @@ export const betterSession = <TSession extends JsonObject = JsonObject>(
         async save() {
           await persist('manual')
         },
-        [AUTO_SAVE]: persist
+        [AUTO_SAVE]: persist,
+        // Browsers never attach header transports on their own, so a cross-site request cannot
+        // carry such a session and needs no token.
+        [VERIFY_CSRF]: (token) =>
+          incomingTransport?.type === 'header' ||
+          Boolean(token && state.csrfSecret && verifyCsrfToken(state.csrfSecret, token))
       }
 
-      return {
-        session
-      }
+      const context: Record<string, SessionContext<TSession>> = { [decorateAs]: session }
+      return context as Record<TDecorateAs, SessionContext<TSession>>
     })
-    .onAfterHandle({ as: 'scoped' }, async ({ session }) => {
-      await (session as InternalSession<JsonObject>)[AUTO_SAVE]('auto')
+    .onAfterHandle({ as: 'scoped' }, async (context) => {
+      await readSession(context)[AUTO_SAVE]('auto')
     })
+
+  if (!csrf) {
+    return plugin
+  }
+
+  // Registered only when enabled: reading `body` makes Elysia parse it for every route.
+  return plugin.onBeforeHandle({ as: 'scoped' }, (context) => {
+    const { request, body, status } = context
+
+    if (!csrf.methods.includes(request.method.toUpperCase())) {
+      return
+    }
+
+    const token = request.headers.get(csrf.header) ?? readBodyField(body, csrf.field)
+
+    if (!readSession(context)[VERIFY_CSRF](token)) {
+      return status(403, 'Invalid CSRF token.')
+    }
+  })
 }
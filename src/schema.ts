@@ -0,0 +1,43 @@
+import { getSchemaValidator } from 'elysia'
+import type { TSchema } from 'elysia'
+import type { JsonObject, SessionSchema, StandardSchemaV1 } from './types.js'
+
+/** Outcome of validating session data against the plugin's schema. */
+export type SessionValidationResult<TSession extends JsonObject> =
+  | { valid: true; data: TSession }
+  | { valid: false; issues: string[] }
+
+/** Checks session data and returns the parsed output of the schema. */
+export type SessionValidator<TSession extends JsonObject> = (
+  value: unknown
+) => Promise<SessionValidationResult<TSession>>
+
+const isStandardSchema = (schema: object): schema is StandardSchemaV1 => '~standard' in schema
+
+/** Creates a validator for an Elysia `t` (TypeBox) schema or a Standard Schema. */
+export const createSessionValidator = <TSession extends JsonObject>(
+  schema: SessionSchema<TSession>
+): SessionValidator<TSession> => {
+  if (isStandardSchema(schema)) {
+    return async (value) => {
+      const result = await schema['~standard'].validate(value)
+
+      return result.issues
+        ? { valid: false, issues: result.issues.map((issue) => issue.message) }
+        : { valid: true, data: result.value as TSession }
+    }
+  }
+
+  const validator = getSchemaValidator(schema as TSchema)
+
+  return async (value) => {
+    const result = validator.safeParse(value)
+
+    return result.success
+      ? { valid: true, data: result.data as TSession }
+      : {
+          valid: false,
+          issues: result.errors.flatMap((error) => (error ? [error.summary ?? error.message] : []))
+        }
+  }
+}
@@ -0,0 +1,61 @@
+import type { SessionTransport } from './types.js'
+
+const DEFAULT_HEADER = 'x-session-id'
+
+/** A transport with its defaults applied. */
+export type ResolvedTransport =
+  | { type: 'cookie' }
+  | { type: 'header'; name: string; scheme: string | null; responseHeader: string }
+
+const resolveTransport = (transport: SessionTransport): ResolvedTransport => {
+  if (transport === 'cookie') {
+    return { type: 'cookie' }
+  }
+
+  const options =
+    transport === 'header'
+      ? { type: 'header' as const }
+      : transport === 'bearer'
+        ? { type: 'header' as const, name: 'authorization', scheme: 'Bearer' }
+        : transport
+  const name = (options.name ?? DEFAULT_HEADER).toLowerCase()
+  const scheme = options.scheme ?? null
+
+  return {
+    type: 'header',
+    name,
+    scheme,
+    responseHeader: (options.responseHeader ?? (scheme ? DEFAULT_HEADER : name)).toLowerCase()
+  }
+}
+
+/** Applies defaults to the `transport` option, keeping the order of a list. */
+export const resolveTransports = (
+  transport: SessionTransport | SessionTransport[] = 'cookie'
+): ResolvedTransport[] => {
+  const transports = (Array.isArray(transport) ? transport : [transport]).map(resolveTransport)
+
+  if (transports.length === 0) {
+    throw new Error('Configure at least one session transport.')
+  }
+
+  return transports
+}
+
+/** Reads the raw session id a header transport carries, or `null` when it is absent. */
+export const readHeaderTransport = (
+  transport: Extract<ResolvedTransport, { type: 'header' }>,
+  headers: Headers
+): string | null => {
+  const value = headers.get(transport.name)?.trim()
+  if (!value) {
+    return null
+  }
+
+  if (!transport.scheme) {
+    return value
+  }
+
+  const [scheme, token] = value.split(/\s+/, 2)
+  return scheme?.toLowerCase() === transport.scheme.toLowerCase() && token ? token : null
+}
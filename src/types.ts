@@ -1,3 +1,5 @@
+import type { Static, TSchema } from 'elysia'
+
 /** Primitive JSON value. */
 export type JsonPrimitive = string | number | boolean | null
 /** JSON array value. */
@@ -13,16 +15,119 @@ export interface StoredSession<TSession extends JsonObject = JsonObject> {
   data: TSession
   /** Absolute expiration time in milliseconds since Unix epoch. */
   expiresAt: number
+  /** Creation time in milliseconds since Unix epoch, used for the absolute timeout. */
+  createdAt?: number
+  /** Write counter used for compare-and-set. Missing means `0`. */
+  version?: number
+  /** Data version set by the plugin's `version` option. Missing means `1`. */
+  schemaVersion?: number
+  /** Flash values written by the previous request, removed on the next write. */
+  flash?: JsonObject
+  /** Per-session secret that CSRF tokens are derived from. */
+  csrfSecret?: string
+  /** Hash of the client fingerprint the session is bound to. */
+  fingerprint?: string
+}
+
+/** Selects the user a session belongs to, or `null` for anonymous sessions. */
+export type SessionUserKey<TSession extends JsonObject = JsonObject> = (
+  data: TSession
+) => string | null | undefined
+
+/** Options for `destroyAllForUser`. */
+export interface DestroyUserSessionsOptions {
+  /** Session id or ids to keep, such as the current session. */
+  except?: string | string[]
+}
+
+/** Options for iterating stored sessions. */
+export interface SessionEntriesOptions {
+  /** Number of sessions loaded from the store per round trip. Defaults to 100. */
+  batchSize?: number
 }
 
+/** Options for `SessionStoreAdapter.set`. */
+export interface SessionSetOptions {
+  /**
+   * Only write when the stored version equals this value; a missing session counts as `0`.
+   * Adapters throw `SessionConflictError` on mismatch.
+   */
+  expectedVersion?: number
+}
+
+/** Changed keys and replacement metadata passed to `SessionStoreAdapter.patch`. */
+export interface SessionPatch<TSession extends JsonObject = JsonObject>
+  extends Omit<StoredSession<TSession>, 'data'> {
+  /** Keys written since the session was loaded, with their new values. */
+  set: Partial<TSession>
+  /** Keys deleted since the session was loaded. */
+  unset: Array<Extract<keyof TSession, string>>
+}
+
+/** Session metadata fields that an adapter may be unable to store. */
+export type SessionMetadataField =
+  | 'createdAt'
+  | 'schemaVersion'
+  | 'flash'
+  | 'csrfSecret'
+  | 'fingerprint'
+
 /** Persistence contract implemented by all session adapters. */
 export interface SessionStoreAdapter<TSession extends JsonObject = JsonObject> {
+  /**
+   * Metadata fields the adapter persists. Omitted when the whole `StoredSession` is stored.
+   * The plugin refuses to enable features whose fields are missing from the list.
+   */
+  readonly metadata?: readonly SessionMetadataField[]
+  /**
+   * `false` when `set` cannot honor `expectedVersion`. The plugin then refuses `conflict`
+   * policies other than `last-write-wins`.
+   */
+  readonly compareAndSet?: boolean
   /** Load a session by id, or return `null` when missing/expired. */
   get(id: string): Promise<StoredSession<TSession> | null>
-  /** Persist a session payload by id. */
-  set(id: string, session: StoredSession<TSession>): Promise<void>
+  /** Persist a session payload by id, optionally as a compare-and-set. */
+  set(id: string, session: StoredSession<TSession>, options?: SessionSetOptions): Promise<void>
   /** Delete a session by id. */
   delete(id: string): Promise<void>
+  /**
+   * Apply changed keys to a live session and replace its metadata. Resolves to `false`
+   * when no live session exists, in which case the plugin falls back to `set`.
+   */
+  patch?(id: string, changes: SessionPatch<TSession>): Promise<boolean>
+  /**
+   * Move the expiry of a live session without rewriting it. Resolves to `false` when
+   * no live session exists, in which case the plugin falls back to `set`.
+   */
+  touch?(id: string, expiresAt: number): Promise<boolean>
+  /** List ids of live sessions that belong to a user. Requires a user index. */
+  listSessionsForUser?(userId: string): Promise<string[]>
+  /** Delete every session that belongs to a user and return how many were removed. */
+  destroyAllForUser?(userId: string, options?: DestroyUserSessionsOptions): Promise<number>
+  /** Count live sessions. */
+  count?(): Promise<number>
+  /** List ids of live sessions. */
+  ids?(): Promise<string[]>
+  /** Iterate live sessions as `[id, session]` pairs, loading them in batches. */
+  entries?(options?: SessionEntriesOptions): AsyncIterable<[string, StoredSession<TSession>]>
+  /** Delete every expired session in bulk and return how many were removed. */
+  pruneExpired?(): Promise<number>
+}
+
+/** Message telling other instances to drop their cached copy of a session. */
+export interface SessionInvalidation {
+  /** Session id that changed. */
+  id: string
+  /** Id of the instance that made the change, so it can ignore its own messages. */
+  origin: string
+}
+
+/** Broadcast channel used by tiered adapters to evict stale local copies. */
+export interface SessionInvalidationBus {
+  /** Send an invalidation to every subscriber, including other processes. */
+  publish(message: SessionInvalidation): Promise<void> | void
+  /** Receive invalidations. Returns a function that stops listening. */
+  subscribe(listener: (message: SessionInvalidation) => void): () => void
 }
 
 /** Cookie SameSite mode. */
@@ -44,22 +149,323 @@ export interface SessionCookieOptions {
   sameSite?: SameSite
 }
 
+/** Arguments passed to a session merge function after a write conflict. */
+export interface SessionMergeContext<TSession extends JsonObject> {
+  /** Data as loaded at the start of this request. */
+  base: TSession
+  /** Data currently in the store, written by a concurrent request. */
+  current: TSession
+  /** Data this request tried to write. */
+  attempted: TSession
+}
+
+/** Resolves a write conflict by combining concurrent changes. */
+export type SessionMergeFunction<TSession extends JsonObject> = (
+  context: SessionMergeContext<TSession>
+) => TSession | Promise<TSession>
+
+/**
+ * What to do when another request saved the session after this one loaded it.
+ *
+ * - `last-write-wins`: overwrite without checking (default).
+ * - `reject`: throw `SessionConflictError`.
+ * - `{ merge }`: reload, merge and retry up to `retries` times (default 3).
+ */
+export type SessionConflictPolicy<TSession extends JsonObject> =
+  | 'last-write-wins'
+  | 'reject'
+  | { merge: SessionMergeFunction<TSession>; retries?: number }
+
+/** Result of a Standard Schema validation. */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> }
+
+/** Validator implementing the Standard Schema v1 contract (https://standardschema.dev). */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined
+  }
+}
+
+/** Session data schema: an Elysia `t.Object` (TypeBox) or any Standard Schema validator. */
+export type SessionSchema<TSession extends JsonObject = JsonObject> =
+  | (TSchema & { static: TSession })
+  | StandardSchemaV1<unknown, TSession>
+
+/** Session data type described by a `SessionSchema`. */
+export type InferSessionSchema<TSchemaType> =
+  TSchemaType extends StandardSchemaV1<unknown, infer Output>
+    ? Output
+    : TSchemaType extends TSchema
+      ? Static<TSchemaType>
+      : never
+
+/** Upgrades session data written at the previous data version. */
+export type SessionMigration = (data: JsonObject) => JsonObject | Promise<JsonObject>
+
+/**
+ * What to do with a loaded session whose data fails `schema` or was written
+ * at a data version newer than `version`.
+ *
+ * - `reset`: keep the session id and replace its data with `initialData()` (default).
+ * - `destroy`: delete the stored session and start a new one.
+ * - `throw`: throw `SessionValidationError`.
+ */
+export type SessionInvalidPolicy = 'reset' | 'destroy' | 'throw'
+
+/** Settings for the stateless encrypted cookie store. */
+export interface CookieStoreOptions {
+  /** Secret used to derive the AES-GCM encryption key. */
+  secret?: string
+  /**
+   * Encryption secrets ordered newest first.
+   * Cookies encrypted with older secrets are still accepted and re-encrypted with the newest one.
+   */
+  secrets?: string[]
+  /** Maximum `Set-Cookie` size before splitting into `name.0`, `name.1`, ... Defaults to 4096. */
+  maxCookieSize?: number
+}
+
+/** CSRF protection settings. */
+export interface SessionCsrfOptions {
+  /** Request header carrying the token. Defaults to `x-csrf-token`. */
+  header?: string
+  /** Form or JSON body field carrying the token. Defaults to `_csrf`. */
+  field?: string
+  /** Methods that require a valid token. Defaults to `POST`, `PUT`, `PATCH` and `DELETE`. */
+  methods?: string[]
+}
+
+/**
+ * Client property a session is bound to: the `User-Agent` header, the client IP address
+ * truncated to a network prefix, or a custom value derived from the request.
+ */
+export type SessionFingerprintSource =
+  | 'user-agent'
+  | 'ip'
+  | ((request: Request) => string | null | Promise<string | null>)
+
+/**
+ * What happens to a session presented with a different fingerprint. `regenerate` and `destroy`
+ * both give the client a fresh session; only `destroy` also deletes the stored one.
+ */
+export type SessionBindingAction = 'ignore' | 'regenerate' | 'destroy'
+
+/** A session presented with a fingerprint other than the one it was bound to. */
+export interface SessionBindingMismatch<TSession extends JsonObject = JsonObject> {
+  /** Id of the loaded session. */
+  id: string
+  /** Data of the loaded session. */
+  data: TSession
+  /** Request carrying the session id. */
+  request: Request
+}
+
+/** Fixed action, or a hook deciding the action for each mismatch. */
+export type SessionBindingPolicy<TSession extends JsonObject = JsonObject> =
+  | SessionBindingAction
+  | ((
+      mismatch: SessionBindingMismatch<TSession>
+    ) => SessionBindingAction | Promise<SessionBindingAction>)
+
+/** Options for binding sessions to a client fingerprint. */
+export interface SessionBindingOptions<TSession extends JsonObject = JsonObject> {
+  /** Properties hashed into the fingerprint. Defaults to `user-agent`. */
+  fingerprint?: SessionFingerprintSource | SessionFingerprintSource[]
+  /** Handling of fingerprint mismatches. Defaults to `destroy`. */
+  policy?: SessionBindingPolicy<TSession>
+  /** Leading bits of an IPv4 address used by the `ip` source. Defaults to `24`. */
+  ipv4Prefix?: number
+  /** Leading bits of an IPv6 address used by the `ip` source. Defaults to `64`. */
+  ipv6Prefix?: number
+  /**
+   * Reads the client address for the `ip` source. Defaults to the server's socket address;
+   * behind a proxy, read the forwarded address instead.
+   */
+  clientIp?: (request: Request) => string | null
+}
+
+/** Session lifecycle event, with the request it happened in. */
+export interface SessionEvent<TSession extends JsonObject = JsonObject> {
+  /** Session id. */
+  id: string
+  /** Session data at the time of the event. */
+  data: TSession
+  /** Request that caused the event. */
+  request: Request
+}
+
+/** A request presented the id of a session that has expired or no longer exists. */
+export interface SessionExpiredEvent {
+  /** Id sent by the client. */
+  id: string
+  /** Request carrying the id. */
+  request: Request
+}
+
+/** Lifecycle events and their listener arguments. */
+export interface SessionEventMap<TSession extends JsonObject = JsonObject> {
+  /** A new session was written for the first time. */
+  create: [event: SessionEvent<TSession>]
+  /** An existing session was loaded for a request. */
+  load: [event: SessionEvent<TSession>]
+  /** A session was written or its expiry refreshed. */
+  save: [event: SessionEvent<TSession>]
+  /** `session.regenerate()` moved a session to a new id. The event carries the new id. */
+  regenerate: [oldId: string, newId: string, event: SessionEvent<TSession>]
+  /** A session was destroyed. */
+  destroy: [event: SessionEvent<TSession>]
+  /** A request presented an expired or unknown session id. */
+  expired: [event: SessionExpiredEvent]
+}
+
+/** Listener for one lifecycle event. */
+export type SessionEventListener<
+  TSession extends JsonObject,
+  TEvent extends keyof SessionEventMap<TSession>
+> = (...args: SessionEventMap<TSession>[TEvent]) => void | Promise<void>
+
+/** Typed emitter of session lifecycle events. */
+export interface SessionEventEmitter<TSession extends JsonObject = JsonObject> {
+  /** Adds a listener. Returns a function removing it. */
+  on<TEvent extends keyof SessionEventMap<TSession>>(
+    event: TEvent,
+    listener: SessionEventListener<TSession, TEvent>
+  ): () => void
+  /** Removes a listener. */
+  off<TEvent extends keyof SessionEventMap<TSession>>(
+    event: TEvent,
+    listener: SessionEventListener<TSession, TEvent>
+  ): void
+  /** Calls the listeners of `event` in order, waiting for each one. */
+  emit<TEvent extends keyof SessionEventMap<TSession>>(
+    event: TEvent,
+    ...args: SessionEventMap<TSession>[TEvent]
+  ): Promise<void>
+}
+
+/** Session id carried in a request header. */
+export interface SessionHeaderTransport {
+  type: 'header'
+  /** Request header carrying the id. Defaults to `x-session-id`. */
+  name?: string
+  /** Authorization scheme in front of the id, such as `Bearer`. */
+  scheme?: string
+  /**
+   * Response header carrying a new id after create and regenerate, and an empty value after
+   * destroy. Defaults to `name`, or `x-session-id` when `scheme` is set.
+   */
+  responseHeader?: string
+}
+
+/**
+ * Where the session id travels: the session cookie, `x-session-id` (`'header'`),
+ * `Authorization: Bearer` (`'bearer'`), or a custom header.
+ */
+export type SessionTransport = 'cookie' | 'header' | 'bearer' | SessionHeaderTransport
+
 /** Configuration for the `betterSession` plugin. */
-export interface SessionPluginOptions<TSession extends JsonObject = JsonObject> {
-  /** Backing store adapter implementation. */
-  adapter: SessionStoreAdapter<TSession>
+export interface SessionPluginOptions<
+  TSession extends JsonObject = JsonObject,
+  TDecorateAs extends string = 'session'
+> {
+  /**
+   * Instance name, used to tell plugin instances apart. Give each session of an app its own
+   * name. Defaults to the `decorateAs` key.
+   */
+  name?: string
+  /** Context property holding this session's API. Defaults to `session`. */
+  decorateAs?: TDecorateAs
+  /** Backing store adapter implementation. Required unless `cookieStore` is set. */
+  adapter?: SessionStoreAdapter<TSession>
+  /**
+   * Keep the whole session encrypted in the cookie instead of a server-side store.
+   * Use instead of `adapter`.
+   */
+  cookieStore?: CookieStoreOptions
   /** Session TTL in milliseconds. Defaults to 7 days. */
   ttl?: number
+  /**
+   * Maximum inactivity in milliseconds before a session expires.
+   * Replaces `ttl` as the sliding window when set.
+   */
+  idleTimeout?: number
+  /** Maximum session lifetime in milliseconds from creation, regardless of activity. */
+  absoluteTimeout?: number
   /** Refresh expiration for existing sessions on read requests. Defaults to `true`. */
   rolling?: boolean
+  /**
+   * Fraction of the idle window (`0` to below `1`) that must pass before a read request
+   * refreshes expiration. Defaults to `0`, refreshing on every request.
+   */
+  rollingThreshold?: number
   /** Create session ids eagerly on first request. Defaults to `true`. */
   createOnRequest?: boolean
   /** Cookie settings for the session id cookie. */
   cookie?: SessionCookieOptions
+  /**
+   * Where the session id is read from and sent back. A list is tried in order; responses use
+   * the transport the id arrived on, or the first one for new sessions. Defaults to `'cookie'`.
+   */
+  transport?: SessionTransport | SessionTransport[]
+  /** Secret used to HMAC-sign the session id cookie or header. */
+  secret?: string
+  /**
+   * Signing secrets ordered newest first.
+   * Cookies signed with older secrets are still accepted and re-signed with the newest one.
+   */
+  secrets?: string[]
+  /**
+   * Interval in milliseconds for sweeping expired sessions with `adapter.pruneExpired()`.
+   * The sweeper starts and stops with the Elysia server. Disabled by default.
+   */
+  sweepInterval?: number
+  /** Called when a scheduled sweep fails. */
+  onSweepError?: (error: unknown) => void
+  /** Called after a new session is written for the first time. */
+  onCreate?: SessionEventListener<TSession, 'create'>
+  /** Called when an existing session is loaded for a request. */
+  onLoad?: SessionEventListener<TSession, 'load'>
+  /** Called after a session is written or its expiry refreshed. */
+  onSave?: SessionEventListener<TSession, 'save'>
+  /** Called when `session.regenerate()` moves a session to a new id. */
+  onRegenerate?: SessionEventListener<TSession, 'regenerate'>
+  /** Called after a session is destroyed. */
+  onDestroy?: SessionEventListener<TSession, 'destroy'>
+  /** Called when a request presents an expired or unknown session id. */
+  onExpired?: SessionEventListener<TSession, 'expired'>
+  /** Emitter receiving every lifecycle event after the `on*` callbacks. */
+  events?: SessionEventEmitter<TSession>
+  /** Handling of concurrent writes to the same session. Defaults to `last-write-wins`. */
+  conflict?: SessionConflictPolicy<TSession>
+  /** Enable CSRF token checks on unsafe methods. Disabled by default. */
+  csrf?: boolean | SessionCsrfOptions
+  /** Bind sessions to a client fingerprint, such as the User-Agent. Disabled by default. */
+  binding?: boolean | SessionBindingOptions<TSession>
   /** Custom session id factory. Defaults to `crypto.randomUUID()`. */
   generateId?: () => string
   /** Initial session data factory when no session exists. */
   initialData?: () => TSession
+  /**
+   * Validates session data after loading and before saving. `TSession` is inferred from it
+   * when the plugin's type argument is omitted.
+   */
+  schema?: SessionSchema<TSession>
+  /** What to do with loaded data that fails `schema`. Defaults to `reset`. */
+  invalidSession?: SessionInvalidPolicy
+  /** Current session data version, stored with every session. Required by `migrations`. */
+  version?: number
+  /**
+   * Upgrades keyed by target version: `migrations[n]` turns version `n - 1` data into
+   * version `n`. Sessions stored without a version count as version `1`.
+   */
+  migrations?: Record<number, SessionMigration>
 }
 
 /** Async-safe updater for replacing session data. */
@@ -89,7 +495,13 @@ export interface SessionContext<TSession extends JsonObject = JsonObject> {
   update(updater: SessionUpdater<TSession>): Promise<void>
   /** Remove one key from session data. */
   delete(key: keyof TSession): void
-  /** Rotate to a new session id while keeping data. */
+  /** Store a value that is readable only during the next request. */
+  flash(key: string, value: JsonValue): void
+  /** Read a flash value set by the previous request and mark it consumed. */
+  getFlash<TValue extends JsonValue = JsonValue>(key: string): TValue | undefined
+  /** Create a CSRF token bound to this session. Requires the `csrf` option. */
+  csrfToken(): string
+  /** Rotate to a new session id while keeping data. CSRF tokens are rotated too. */
   regenerate(): Promise<string>
   /** Delete the session from storage and clear cookie. */
   destroy(): Promise<void>
@@ -1,15 +1,39 @@
-import { rm } from 'node:fs/promises'
+import { mkdir, readdir, readFile, rm, utimes, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { describe, expect, it } from 'bun:test'
 import { Database } from 'bun:sqlite'
 import { drizzle } from 'drizzle-orm/bun-sqlite'
+import { drizzle as drizzleMysqlProxy } from 'drizzle-orm/mysql-proxy'
+import {
+  getTableConfig as getMysqlTableConfig,
+  bigint as mysqlBigint,
+  mysqlTable,
+  varchar
+} from 'drizzle-orm/mysql-core'
+import { drizzle as drizzlePgProxy } from 'drizzle-orm/pg-proxy'
+import { drizzle as drizzleSqliteProxy } from 'drizzle-orm/sqlite-proxy'
+import {
+  getTableConfig as getPgTableConfig,
+  bigint as pgBigint,
+  pgTable,
+  text as pgText
+} from 'drizzle-orm/pg-core'
 import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
 import {
   createDrizzleSessionAdapter,
   createFileSessionAdapter,
+  createLocalInvalidationBus,
   createMemorySessionAdapter,
+  createRedisInvalidationBus,
   createRedisSessionAdapter,
-  type RedisSessionClient
+  createSqliteSessionAdapter,
+  createTieredSessionAdapter,
+  type RedisSessionClient,
+  SessionConflictError,
+  sessionTable,
+  type SessionStoreAdapter,
+  type StoredSession,
+  withEncryption
 } from '../src'
 
 describe('memory adapter', () => {
@@ -30,6 +54,51 @@ describe('memory adapter', () => {
     now += 60
     expect(await adapter.get('a')).toBeNull()
   })
+
+  it('evicts least recently used sessions beyond maxEntries', async () => {
+    const adapter = createMemorySessionAdapter<{ value: number }>({ maxEntries: 2 })
+    const expiresAt = Date.now() + 60_000
+
+    await adapter.set('a', { data: { value: 1 }, expiresAt })
+    await adapter.set('b', { data: { value: 2 }, expiresAt })
+    await adapter.get('a')
+    await adapter.set('c', { data: { value: 3 }, expiresAt })
+
+    expect(await adapter.get('b')).toBeNull()
+    expect((await adapter.get('a'))?.data.value).toBe(1)
+    expect((await adapter.get('c'))?.data.value).toBe(3)
+    expect(adapter.stats()).toMatchObject({ hits: 3, misses: 1, evictions: 1, size: 2 })
+  })
+
+  it('evicts sessions beyond maxBytes and rejects oversized ones', async () => {
+    const expiresAt = Date.now() + 60_000
+    const entry = { data: { value: 'x'.repeat(40) }, expiresAt }
+    const size = new TextEncoder().encode(JSON.stringify(entry)).byteLength
+    const adapter = createMemorySessionAdapter<{ value: string }>({ maxBytes: size * 2 })
+
+    await adapter.set('a', entry)
+    await adapter.set('b', entry)
+    expect(adapter.stats()).toMatchObject({ size: 2, bytes: size * 2, evictions: 0 })
+
+    await adapter.set('c', entry)
+    expect(await adapter.get('a')).toBeNull()
+    expect(adapter.stats()).toMatchObject({ size: 2, bytes: size * 2, evictions: 1 })
+
+    await expect(
+      adapter.set('d', { data: { value: 'x'.repeat(size * 2) }, expiresAt })
+    ).rejects.toThrow('maxBytes')
+    expect(await adapter.get('b')).not.toBeNull()
+  })
+
+  it('sweeps expired sessions on a timer', async () => {
+    const adapter = createMemorySessionAdapter<{ value: number }>({ sweepInterval: 5 })
+
+    await adapter.set('a', { data: { value: 1 }, expiresAt: Date.now() + 10 })
+    await Bun.sleep(40)
+
+    expect(adapter.stats()).toMatchObject({ size: 0, bytes: 0, misses: 0 })
+    adapter.close()
+  })
 })
 
 describe('file adapter', () => {
@@ -64,6 +133,73 @@ describe('file adapter', () => {
 
     await rm(tempPath, { force: true })
   })
+
+  it('shares one file between instances through a lock file', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-shared-${Date.now()}`)
+    const filePath = join(directory, 'sessions.json')
+    const expiresAt = Date.now() + 10_000
+    const first = createFileSessionAdapter<{ value: number }>({ filePath })
+    const second = createFileSessionAdapter<{ value: number }>({ filePath })
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? first : second).set(`s${index}`, { data: { value: index }, expiresAt })
+      )
+    )
+
+    expect(await first.count!()).toBe(10)
+    expect(await readdir(directory)).toEqual(['sessions.json'])
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('takes over stale locks and times out on held ones', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-lock-${Date.now()}`)
+    const filePath = join(directory, 'sessions.json')
+    const adapter = createFileSessionAdapter<{ value: number }>({ filePath, lockTimeout: 30 })
+    const expiresAt = Date.now() + 10_000
+
+    await adapter.set('a', { data: { value: 1 }, expiresAt })
+    await writeFile(`${filePath}.lock`, '')
+    await expect(adapter.get('a')).rejects.toThrow('Timed out waiting for the session store lock')
+
+    const stale = new Date(Date.now() - 60_000)
+    await utimes(`${filePath}.lock`, stale, stale)
+
+    // A contender holding the takeover guard decides alone whether the lock is still stale.
+    await writeFile(`${filePath}.lock.takeover`, '')
+    await expect(adapter.get('a')).rejects.toThrow('Timed out waiting for the session store lock')
+
+    // A guard left behind by a crashed contender expires like a lock.
+    await utimes(`${filePath}.lock.takeover`, stale, stale)
+    expect((await adapter.get('a'))?.data.value).toBe(1)
+    expect(await readdir(directory)).toEqual(['sessions.json'])
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('stores one file per session in a sharded directory', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-sharded-${Date.now()}`)
+    let now = Date.now()
+    const first = createFileSessionAdapter<{ value: string }>({ directory, now: () => now })
+    const second = createFileSessionAdapter<{ value: string }>({ directory, now: () => now })
+
+    await Promise.all([
+      first.set('one', { data: { value: '1' }, expiresAt: now + 1_000 }),
+      second.set('two', { data: { value: '2' }, expiresAt: now + 1_000 })
+    ])
+
+    expect((await second.get('one'))?.data.value).toBe('1')
+    expect((await first.ids!()).sort()).toEqual(['one', 'two'])
+    expect((await readdir(join(directory, 'sessions'))).length).toBe(2)
+
+    now += 2_000
+    expect(await first.get('one')).toBeNull()
+    expect(await second.pruneExpired!()).toBe(1)
+    expect(await first.count!()).toBe(0)
+
+    await rm(directory, { recursive: true, force: true })
+  })
 })
 
 describe('redis adapter', () => {
@@ -114,6 +250,42 @@ describe('redis adapter', () => {
   })
 })
 
+describe('sqlite adapter', () => {
+  it('creates its table and indexes and persists sessions to a file', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-sqlite-${Date.now()}`)
+    const path = join(directory, 'sessions.db')
+    let now = Date.now()
+
+    await mkdir(directory, { recursive: true })
+    const first = createSqliteSessionAdapter<{ value: string }>({ path, now: () => now })
+    await first.set('persisted', { data: { value: 'one' }, expiresAt: now + 1_000 })
+    await first.set('persisted', { data: { value: 'two' }, expiresAt: now + 1_000 })
+
+    const database = new Database(path)
+    const second = createSqliteSessionAdapter<{ value: string }>({ database, now: () => now })
+    expect((await second.get('persisted'))?.data.value).toBe('two')
+    expect(await second.count!()).toBe(1)
+
+    const indexes = database
+      .query("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'sessions'")
+      .all() as Array<{ name: string }>
+    expect(indexes.map((index) => index.name)).toContain('sessions_expires_at_idx')
+
+    now += 2_000
+    expect(await second.get('persisted')).toBeNull()
+
+    database.close()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('rejects unsafe table names and ambiguous databases', () => {
+    expect(() =>
+      createSqliteSessionAdapter({ database: new Database(':memory:'), table: 'a"; DROP' })
+    ).toThrow('Invalid SQLite session table name')
+    expect(() => createSqliteSessionAdapter({})).toThrow('Configure exactly one SQLite database')
+  })
+})
+
 describe('drizzle adapter', () => {
   it('stores and retrieves sessions through drizzle (single serialized column)', async () => {
     const sqlite = new Database(':memory:')
@@ -161,6 +333,51 @@ describe('drizzle adapter', () => {
     sqlite.close()
   })
 
+  it('persists session metadata through drizzle when a meta column is configured', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        meta TEXT,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const db = drizzle(sqlite)
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      meta: text('meta'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    const adapter = createDrizzleSessionAdapter<typeof sessions, { role: string }>({
+      db,
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        meta: (table) => table.meta,
+        expiresAt: (table) => table.expiresAt
+      },
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+
+    await adapter.set('m1', {
+      data: { role: 'user' },
+      expiresAt: Date.now() + 1_000,
+      flash: { notice: 'Welcome back.' }
+    })
+
+    const loaded = await adapter.get('m1')
+    expect(loaded?.flash).toEqual({ notice: 'Welcome back.' })
+
+    sqlite.close()
+  })
+
   it('stores and retrieves sessions through drizzle (typed multi-column mapping)', async () => {
     const sqlite = new Database(':memory:')
 
@@ -233,3 +450,1617 @@ describe('drizzle adapter', () => {
     sqlite.close()
   })
 })
+
+describe('drizzle upserts and transactions', () => {
+  it('writes with one upsert statement per dialect', async () => {
+    const statements: string[] = []
+    const expiresAt = Date.now() + 10_000
+
+    const pgSessions = pgTable('sessions', {
+      id: pgText('id').primaryKey(),
+      data: pgText('data').notNull(),
+      expiresAt: pgBigint('expires_at', { mode: 'number' }).notNull()
+    })
+    const pgAdapter = createDrizzleSessionAdapter<typeof pgSessions, { value: number }>({
+      db: drizzlePgProxy(async (sql) => {
+        statements.push(sql)
+        return { rows: [] }
+      }),
+      table: pgSessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        expiresAt: (table) => table.expiresAt
+      },
+      serializeExpiresAt: (value) => value
+    })
+
+    const mysqlSessions = mysqlTable('sessions', {
+      id: varchar('id', { length: 64 }).primaryKey(),
+      data: varchar('data', { length: 4096 }).notNull(),
+      expiresAt: mysqlBigint('expires_at', { mode: 'number' }).notNull()
+    })
+    const mysqlAdapter = createDrizzleSessionAdapter<typeof mysqlSessions, { value: number }>({
+      db: drizzleMysqlProxy(async (sql) => {
+        statements.push(sql)
+        return { rows: [{ affectedRows: 1, insertId: 0 }] }
+      }),
+      table: mysqlSessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        expiresAt: (table) => table.expiresAt
+      },
+      serializeExpiresAt: (value) => value
+    })
+
+    await pgAdapter.set('p', { data: { value: 1 }, expiresAt })
+    await mysqlAdapter.set('m', { data: { value: 1 }, expiresAt })
+
+    expect(statements).toHaveLength(2)
+    expect(statements[0]).toContain('on conflict ("id") do update set')
+    expect(statements[1]).toContain('on duplicate key update')
+  })
+
+  it('runs queries on a transaction handle passed per call', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+    // An async driver over the same database, so transactions span awaited queries.
+    const db = drizzleSqliteProxy(async (query, params, method) => {
+      const statement = sqlite.query(query)
+
+      if (method === 'run') {
+        return { rows: [], ...statement.run(...(params as [])) }
+      }
+
+      const rows = statement.values(...(params as []))
+      return { rows: method === 'get' ? rows[0] : rows }
+    })
+    const calls: string[] = []
+    const record = <TDatabase extends object>(target: TDatabase, name: string) =>
+      new Proxy(target, {
+        get(object, property, receiver) {
+          if (['select', 'insert', 'update', 'delete'].includes(String(property))) {
+            calls.push(`${name}.${String(property)}`)
+          }
+
+          return Reflect.get(object, property, receiver)
+        }
+      })
+    const columns = {
+      id: (table: typeof sessions) => table.id,
+      data: (table: typeof sessions) => table.data,
+      expiresAt: (table: typeof sessions) => table.expiresAt
+    }
+
+    const adapter = createDrizzleSessionAdapter<typeof sessions, { value: number }>({
+      db: record(db, 'db'),
+      table: sessions,
+      columns,
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+    const expiresAt = Date.now() + 10_000
+
+    await adapter.set('a', { data: { value: 1 }, expiresAt })
+    await adapter.set('a', { data: { value: 2 }, expiresAt })
+    expect(calls).toEqual(['db.insert', 'db.insert'])
+
+    calls.length = 0
+    await db.transaction(async (tx) => {
+      await adapter.withTransaction(record(tx, 'tx')).set('b', { data: { value: 3 }, expiresAt })
+    })
+    expect(calls).toEqual(['tx.insert'])
+
+    const rolledBack = db.transaction(async (tx) => {
+      await adapter.withTransaction(tx).set('c', { data: { value: 4 }, expiresAt })
+      await adapter.withTransaction(tx).delete('a')
+      throw new Error('abort')
+    })
+    await expect(rolledBack).rejects.toThrow('abort')
+
+    expect((await adapter.get('a'))?.data.value).toBe(2)
+    expect((await adapter.get('b'))?.data.value).toBe(3)
+    expect(await adapter.get('c')).toBeNull()
+
+    // A synchronous driver would commit before the adapter's awaited queries run.
+    const syncDb = drizzle(sqlite)
+    const syncAdapter = createDrizzleSessionAdapter({ db: syncDb, table: sessions, columns })
+    expect(() =>
+      syncDb.transaction((tx) => {
+        syncAdapter.withTransaction(tx)
+      })
+    ).toThrow('Synchronous SQLite transactions cannot include session writes')
+
+    sqlite.close()
+  })
+
+  it('rolls back multi-statement writes on synchronous sqlite drivers', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL CHECK (length(data) < 40),
+        expires_at INTEGER NOT NULL,
+        version INTEGER
+      );
+      INSERT INTO sessions VALUES ('a', '{"value":"old"}', 1, 3);
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull(),
+      version: integer('version')
+    })
+    const adapter = createDrizzleSessionAdapter<typeof sessions, { value: string }>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        expiresAt: (table) => table.expiresAt,
+        version: (table) => table.version
+      },
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+    const expiresAt = Date.now() + 10_000
+
+    // Replacing the expired row deletes it first; the failing insert must undo that delete.
+    const oversized = { data: { value: 'x'.repeat(40) }, expiresAt, version: 1 }
+    await expect(adapter.set('a', oversized, { expectedVersion: 0 })).rejects.toThrow()
+    expect(sqlite.query('SELECT id FROM sessions').all()).toEqual([{ id: 'a' }])
+
+    await adapter.set('a', { data: { value: 'new' }, expiresAt, version: 1 }, {
+      expectedVersion: 0
+    })
+    expect((await adapter.get('a'))?.data.value).toBe('new')
+
+    sqlite.close()
+  })
+
+  it('requires a dialect for tables it cannot detect', () => {
+    expect(() =>
+      createDrizzleSessionAdapter({
+        db: drizzle(new Database(':memory:')),
+        table: { id: {}, expiresAt: {}, data: {} },
+        columns: {
+          id: (table) => table.id as never,
+          data: (table) => table.data as never,
+          expiresAt: (table) => table.expiresAt as never
+        }
+      })
+    ).toThrow('Unable to detect the Drizzle dialect')
+  })
+})
+
+type IndexedSession = { userId: string | null }
+
+describe('drizzle session tables', () => {
+  it('builds pg and mysql tables with matching column types and an expiry index', () => {
+    const pg = getPgTableConfig(sessionTable.pg('sessions', { userId: true, createdAt: true }))
+    const mysql = getMysqlTableConfig(sessionTable.mysql('sessions'))
+    const types = (columns: Array<{ name: string; getSQLType(): string }>) =>
+      Object.fromEntries(columns.map((column) => [column.name, column.getSQLType()]))
+
+    expect(types(pg.columns)).toEqual({
+      id: 'text',
+      meta: 'jsonb',
+      version: 'integer',
+      expires_at: 'timestamp (3) with time zone',
+      data: 'jsonb',
+      user_id: 'text',
+      created_at: 'timestamp (3) with time zone'
+    })
+    expect(pg.indexes.map((index) => index.config.name)).toEqual([
+      'sessions_expires_at_idx',
+      'sessions_user_id_idx'
+    ])
+
+    expect(types(mysql.columns)).toMatchObject({ data: 'json', expires_at: 'timestamp(3)' })
+    expect(mysql.columns.map((column) => column.name)).not.toContain('user_id')
+    expect(mysql.indexes.map((index) => index.config.name)).toEqual(['sessions_expires_at_idx'])
+  })
+
+  it('plugs a sqlite session table straight into the adapter', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        meta TEXT,
+        version INTEGER,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        user_id TEXT,
+        created_at INTEGER
+      );
+    `)
+
+    const sessions = sessionTable.sqlite('sessions', { userId: true, createdAt: true })
+    const adapter = createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: sessionTable.columns(sessions),
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, Date.now())
+
+    const createdAt = Date.now()
+    const expiresAt = createdAt + 10_000
+    await adapter.set('s', { data: { userId: 'u1' }, expiresAt, createdAt, flash: { a: 1 } })
+
+    expect(await adapter.get('s')).toEqual({
+      data: { userId: 'u1' },
+      expiresAt,
+      createdAt,
+      version: 0,
+      flash: { a: 1 }
+    })
+    expect(sqlite.query("SELECT data, user_id FROM sessions WHERE id = 's'").get()).toEqual({
+      data: '{"userId":"u1"}',
+      user_id: 'u1'
+    })
+
+    sqlite.close()
+  })
+
+  it('leaves the data column out in columns mode', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        meta TEXT,
+        version INTEGER,
+        expires_at INTEGER NOT NULL,
+        visits INTEGER
+      );
+    `)
+
+    const sessions = sessionTable.sqlite('sessions', {
+      dataMode: 'columns',
+      dataColumns: { visits: integer('visits') }
+    })
+    const adapter = createDrizzleSessionAdapter<typeof sessions, { visits: number }>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: sessionTable.columns(sessions),
+      dataColumns: { visits: (table) => table.visits }
+    })
+    const expiresAt = Date.now() + 10_000
+
+    expect('data' in sessions).toBe(false)
+    await adapter.set('c', { data: { visits: 3 }, expiresAt })
+    expect((await adapter.get('c'))?.data).toEqual({ visits: 3 })
+
+    sqlite.close()
+  })
+
+  it('requires a column for every key without an overflow column', async () => {
+    type ThemedSession = { visits: number; theme?: string }
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        meta TEXT,
+        version INTEGER,
+        expires_at INTEGER NOT NULL,
+        visits INTEGER
+      );
+    `)
+
+    const sessions = sessionTable.sqlite('sessions', {
+      dataMode: 'columns',
+      dataColumns: { visits: integer('visits') }
+    })
+    const adapter = createDrizzleSessionAdapter<typeof sessions, ThemedSession>(
+      // @ts-expect-error `theme` has no column and there is no `columns.data` to hold it.
+      {
+        db: drizzle(sqlite),
+        table: sessions,
+        columns: sessionTable.columns(sessions),
+        dataColumns: { visits: (table) => table.visits }
+      }
+    )
+    const expiresAt = Date.now() + 10_000
+
+    await expect(
+      adapter.set('c', { data: { visits: 1, theme: 'dark' }, expiresAt })
+    ).rejects.toThrow('Session key "theme" has no column in `dataColumns`')
+
+    await adapter.set('c', { data: { visits: 1 }, expiresAt })
+    await expect(
+      adapter.patch!('c', { set: { theme: 'dark' }, unset: [], expiresAt })
+    ).rejects.toThrow('Session key "theme" has no column')
+
+    sqlite.close()
+  })
+})
+
+describe('drizzle hybrid mode', () => {
+  type HybridSession = {
+    userId: string | null
+    role: string
+    theme?: string
+    cart?: string[]
+  }
+
+  it('keeps mapped keys in columns and the rest in a JSON overflow column', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        meta TEXT,
+        version INTEGER,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        role TEXT
+      );
+    `)
+
+    const sessions = sessionTable.sqlite('sessions', { dataColumns: { role: text('role') } })
+    const adapter = createDrizzleSessionAdapter<typeof sessions, HybridSession>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: sessionTable.columns(sessions),
+      dataColumns: { role: (table) => table.role }
+    })
+    const expiresAt = Date.now() + 10_000
+    const row = () => sqlite.query("SELECT data, role FROM sessions WHERE id = 'h'").get()
+
+    await adapter.set('h', {
+      data: { userId: 'u1', role: 'admin', theme: 'dark', cart: ['a'] },
+      expiresAt
+    })
+    expect(row()).toEqual({ data: '{"userId":"u1","theme":"dark","cart":["a"]}', role: 'admin' })
+
+    expect(await adapter.patch!('h', { set: { role: 'owner' }, unset: [], expiresAt })).toBe(true)
+    expect(row()).toEqual({ data: '{"userId":"u1","theme":"dark","cart":["a"]}', role: 'owner' })
+
+    expect(
+      await adapter.patch!('h', { set: { theme: 'light' }, unset: ['cart'], expiresAt })
+    ).toBe(true)
+    expect((await adapter.get('h'))?.data).toEqual({
+      userId: 'u1',
+      role: 'owner',
+      theme: 'light'
+    })
+
+    sqlite.close()
+  })
+})
+
+const createFakeRedisClient = (now: () => number): RedisSessionClient => {
+  const payloads = new Map<string, string>()
+  const expires = new Map<string, number>()
+  const sets = new Map<string, Set<string>>()
+  const hashes = new Map<string, Map<string, string>>()
+
+  const evict = (key: string): void => {
+    const expireAt = expires.get(key)
+    if (typeof expireAt === 'number' && expireAt <= now()) {
+      payloads.delete(key)
+      hashes.delete(key)
+      expires.delete(key)
+    }
+  }
+
+  const get = (key: string): string | null => {
+    evict(key)
+    return payloads.get(key) ?? null
+  }
+
+  const getHash = (key: string): Map<string, string> => {
+    evict(key)
+    return hashes.get(key) ?? new Map()
+  }
+
+  return {
+    async get(key) {
+      return get(key)
+    },
+    async set(key, value) {
+      payloads.set(key, value)
+    },
+    async del(key) {
+      payloads.delete(key)
+      hashes.delete(key)
+      expires.delete(key)
+    },
+    async pexpire(key, milliseconds) {
+      expires.set(key, now() + milliseconds)
+    },
+    async sadd(key, member) {
+      sets.set(key, (sets.get(key) ?? new Set()).add(member))
+    },
+    async srem(key, member) {
+      sets.get(key)?.delete(member)
+    },
+    async smembers(key) {
+      return [...(sets.get(key) ?? [])]
+    },
+    async scan(cursor, ...args) {
+      const pattern = String(args[args.indexOf('MATCH') + 1])
+      const batchSize = Number(args[args.indexOf('COUNT') + 1])
+      const keys = [...payloads.keys(), ...hashes.keys(), ...sets.keys()].filter((key) =>
+        key.startsWith(pattern.slice(0, -1))
+      )
+      const start = Number(cursor)
+      const next = start + batchSize >= keys.length ? '0' : String(start + batchSize)
+
+      return [next, keys.slice(start, start + batchSize)]
+    },
+    // Emulates the hash commands and the adapter's EVAL scripts, told apart by their commands.
+    async send(command, args) {
+      const [hashKey, ...rest] = args as string[]
+      const hash = getHash(hashKey!)
+
+      switch (command) {
+        case 'HGETALL':
+          return Object.fromEntries(hash)
+        case 'HGET':
+          return hash.get(rest[0]!) ?? null
+        case 'HSET':
+          for (let index = 0; index < rest.length; index += 2) {
+            hash.set(rest[index]!, rest[index + 1]!)
+          }
+
+          hashes.set(hashKey!, hash)
+          return rest.length / 2
+        case 'HDEL':
+          for (const field of rest) {
+            hash.delete(field)
+          }
+
+          return rest.length
+      }
+
+      expect(command).toBe('EVAL')
+      const [script, , key, ...argv] = args as string[]
+
+      if (script!.includes('HDEL')) {
+        const [evalNow, ttl, nativeTtl, deleted, ...fields] = argv
+        const hash = getHash(key!)
+        if (!(Number(hash.get('expiresAt')) > Number(evalNow))) {
+          return 0
+        }
+
+        for (const field of fields.splice(0, Number(deleted))) {
+          hash.delete(field)
+        }
+
+        for (let index = 0; index < fields.length; index += 2) {
+          hash.set(fields[index]!, fields[index + 1]!)
+        }
+
+        if (nativeTtl === '1') {
+          expires.set(key!, now() + Number(ttl))
+        }
+
+        return 1
+      }
+
+      if (!script!.includes('cjson')) {
+        const [ttl, nativeTtl, ...fields] = argv
+        const hash = new Map<string, string>()
+        for (let index = 0; index < fields.length; index += 2) {
+          hash.set(fields[index]!, fields[index + 1]!)
+        }
+
+        hashes.set(key!, hash)
+        expires.delete(key!)
+        if (nativeTtl === '1') {
+          expires.set(key!, now() + Number(ttl))
+        }
+
+        return 1
+      }
+
+      const [expected, payload, ttl, evalNow, nativeTtl] = argv
+      const current = get(key!)
+      const decoded = current ? (JSON.parse(current) as StoredSession) : null
+      const version = decoded && decoded.expiresAt > Number(evalNow) ? (decoded.version ?? 0) : 0
+
+      if (version !== Number(expected)) {
+        return 0
+      }
+
+      payloads.set(key!, payload!)
+      if (nativeTtl === '1') {
+        expires.set(key!, now() + Number(ttl))
+      }
+
+      return 1
+    }
+  }
+}
+
+const expectUserIndex = async (adapter: SessionStoreAdapter<IndexedSession>, now: number) => {
+  const alive = now + 10_000
+
+  await adapter.set('a1', { data: { userId: 'alice' }, expiresAt: alive })
+  await adapter.set('a2', { data: { userId: 'alice' }, expiresAt: alive })
+  await adapter.set('a3', { data: { userId: 'alice' }, expiresAt: alive })
+  await adapter.set('b1', { data: { userId: 'bob' }, expiresAt: alive })
+  await adapter.set('anon', { data: { userId: null }, expiresAt: alive })
+
+  expect((await adapter.listSessionsForUser!('alice')).sort()).toEqual(['a1', 'a2', 'a3'])
+
+  await adapter.set('a3', { data: { userId: 'bob' }, expiresAt: alive })
+  expect((await adapter.listSessionsForUser!('alice')).sort()).toEqual(['a1', 'a2'])
+  expect((await adapter.listSessionsForUser!('bob')).sort()).toEqual(['a3', 'b1'])
+
+  expect(await adapter.destroyAllForUser!('alice', { except: 'a2' })).toBe(1)
+  expect(await adapter.get('a1')).toBeNull()
+  expect(await adapter.get('a2')).not.toBeNull()
+
+  expect(await adapter.destroyAllForUser!('bob')).toBe(2)
+  expect(await adapter.listSessionsForUser!('bob')).toEqual([])
+  expect(await adapter.get('anon')).not.toBeNull()
+}
+
+describe('per-user session index', () => {
+  it('indexes memory sessions by user', async () => {
+    const adapter = createMemorySessionAdapter<IndexedSession>({
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, Date.now())
+  })
+
+  it('indexes file sessions by user', async () => {
+    const tempPath = join(
+      process.cwd(),
+      '.tmp',
+      `session-index-${Date.now()}-${Math.random().toString(16).slice(2)}.json`
+    )
+
+    const adapter = createFileSessionAdapter<IndexedSession>({
+      filePath: tempPath,
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, Date.now())
+
+    const reopened = createFileSessionAdapter<IndexedSession>({
+      filePath: tempPath,
+      userKey: (data) => data.userId
+    })
+    expect(await reopened.listSessionsForUser!('alice')).toEqual(['a2'])
+
+    await rm(tempPath, { force: true })
+  })
+
+  it('indexes sharded file sessions with one file per user', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-index-${Date.now()}`)
+    const adapter = createFileSessionAdapter<IndexedSession>({
+      directory,
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, Date.now())
+    expect(await readdir(join(directory, 'users'))).toHaveLength(1)
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('destroys sharded user sessions in batches that let other writes through', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-batches-${Date.now()}`)
+    const adapter = createFileSessionAdapter<IndexedSession>({
+      directory,
+      userKey: (data) => data.userId
+    })
+    const expiresAt = Date.now() + 10_000
+
+    for (let index = 0; index < 150; index += 1) {
+      await adapter.set(`s${index}`, { data: { userId: 'alice' }, expiresAt })
+    }
+
+    const destroyed = adapter.destroyAllForUser!('alice', { except: 's0' })
+    const other = adapter.set('other', { data: { userId: 'bob' }, expiresAt })
+    let otherWritten = false
+    void other.then(() => (otherWritten = true))
+
+    expect(await destroyed).toBe(149)
+    expect(otherWritten).toBe(true)
+    expect(await adapter.listSessionsForUser!('alice')).toEqual(['s0'])
+    expect(await adapter.count!()).toBe(2)
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('indexes sqlite sessions through a user column', async () => {
+    const adapter = createSqliteSessionAdapter<IndexedSession>({
+      database: new Database(':memory:'),
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, Date.now())
+  })
+
+  it('indexes redis sessions with one set per user', async () => {
+    const now = 100_000
+    const adapter = createRedisSessionAdapter<IndexedSession>({
+      client: createFakeRedisClient(() => now),
+      now: () => now,
+      userKey: (data) => data.userId
+    })
+
+    await expectUserIndex(adapter, now)
+  })
+
+  it('indexes drizzle sessions through a user column', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        user_id TEXT,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX sessions_user_id_idx ON sessions (user_id);
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      userId: text('user_id'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    const adapter = createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        userId: (table) => table.userId,
+        expiresAt: (table) => table.expiresAt
+      },
+      userKey: (data) => data.userId,
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+
+    await expectUserIndex(adapter, Date.now())
+
+    sqlite.close()
+  })
+})
+
+const expectEnumerable = async (
+  adapter: SessionStoreAdapter<IndexedSession>,
+  expire: () => void,
+  now: number
+) => {
+  for (const id of ['e1', 'e2', 'e3', 'e4', 'e5']) {
+    await adapter.set(id, { data: { userId: id }, expiresAt: now + 10_000 })
+  }
+
+  await adapter.set('short', { data: { userId: null }, expiresAt: now + 10 })
+  expire()
+
+  expect(await adapter.count!()).toBe(5)
+  expect((await adapter.ids!()).sort()).toEqual(['e1', 'e2', 'e3', 'e4', 'e5'])
+
+  const seen: Array<[string, string | null]> = []
+  for await (const [id, stored] of adapter.entries!({ batchSize: 2 })) {
+    seen.push([id, stored.data.userId])
+  }
+
+  expect(seen.sort()).toEqual([
+    ['e1', 'e1'],
+    ['e2', 'e2'],
+    ['e3', 'e3'],
+    ['e4', 'e4'],
+    ['e5', 'e5']
+  ])
+}
+
+describe('session enumeration', () => {
+  it('lists memory sessions', async () => {
+    let now = 1_000
+    const adapter = createMemorySessionAdapter<IndexedSession>({ now: () => now })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+  })
+
+  it('lists file sessions', async () => {
+    const tempPath = join(
+      process.cwd(),
+      '.tmp',
+      `session-list-${Date.now()}-${Math.random().toString(16).slice(2)}.json`
+    )
+    let now = 1_000
+    const adapter = createFileSessionAdapter<IndexedSession>({
+      filePath: tempPath,
+      now: () => now
+    })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+
+    await rm(tempPath, { force: true })
+  })
+
+  it('lists sharded file sessions', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-list-${Date.now()}`)
+    let now = 1_000
+    const adapter = createFileSessionAdapter<IndexedSession>({ directory, now: () => now })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('lists sqlite sessions in keyset batches', async () => {
+    let now = 1_000
+    const adapter = createSqliteSessionAdapter<IndexedSession>({
+      database: new Database(':memory:'),
+      now: () => now
+    })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+  })
+
+  it('lists redis sessions with SCAN over the prefix', async () => {
+    let now = 1_000
+    const adapter = createRedisSessionAdapter<IndexedSession>({
+      client: createFakeRedisClient(() => now),
+      prefix: 'app:session:',
+      now: () => now,
+      userKey: (data) => data.userId
+    })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+  })
+
+  it('lists drizzle sessions in keyset batches', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    let now = 1_000
+    const adapter = createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        expiresAt: (table) => table.expiresAt
+      },
+      now: () => now,
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+
+    await expectEnumerable(adapter, () => (now += 20), now)
+
+    sqlite.close()
+  })
+})
+
+describe('expired session pruning', () => {
+  it('prunes expired memory sessions in bulk', async () => {
+    let now = 1_000
+    const adapter = createMemorySessionAdapter<IndexedSession>({ now: () => now })
+
+    await adapter.set('keep', { data: { userId: null }, expiresAt: now + 1_000 })
+    await adapter.set('drop-1', { data: { userId: null }, expiresAt: now + 10 })
+    await adapter.set('drop-2', { data: { userId: null }, expiresAt: now + 10 })
+
+    now += 20
+    expect(await adapter.pruneExpired!()).toBe(2)
+    expect(await adapter.pruneExpired!()).toBe(0)
+    expect(await adapter.ids!()).toEqual(['keep'])
+  })
+
+  it('prunes expired sqlite rows with one delete', async () => {
+    let now = 1_000
+    const adapter = createSqliteSessionAdapter<IndexedSession>({
+      database: new Database(':memory:'),
+      now: () => now
+    })
+
+    await adapter.set('keep', { data: { userId: null }, expiresAt: now + 1_000 })
+    await adapter.set('drop', { data: { userId: null }, expiresAt: now + 10 })
+
+    now += 20
+    expect(await adapter.pruneExpired!()).toBe(1)
+    expect(await adapter.ids!()).toEqual(['keep'])
+  })
+
+  it('prunes expired drizzle rows with one delete', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    let now = 1_000
+    const db = drizzle(sqlite)
+    const adapter = createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+      db,
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        expiresAt: (table) => table.expiresAt
+      },
+      now: () => now,
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+
+    await adapter.set('keep', { data: { userId: null }, expiresAt: now + 1_000 })
+    await adapter.set('drop', { data: { userId: null }, expiresAt: now + 10 })
+
+    now += 20
+    expect(await adapter.pruneExpired!()).toBe(1)
+
+    const rows = await db.select().from(sessions)
+    expect(rows.map((row) => row.id)).toEqual(['keep'])
+
+    sqlite.close()
+  })
+})
+
+const expectCompareAndSet = async (adapter: SessionStoreAdapter<IndexedSession>) => {
+  const expiresAt = Date.now() + 10_000
+
+  await adapter.set('v', { data: { userId: 'first' }, expiresAt, version: 1 }, { expectedVersion: 0 })
+  await adapter.set('v', { data: { userId: 'second' }, expiresAt, version: 2 }, { expectedVersion: 1 })
+
+  const stale = adapter.set(
+    'v',
+    { data: { userId: 'stale' }, expiresAt, version: 2 },
+    { expectedVersion: 1 }
+  )
+  await expect(stale).rejects.toBeInstanceOf(SessionConflictError)
+
+  const loaded = await adapter.get('v')
+  expect(loaded?.data.userId).toBe('second')
+  expect(loaded?.version).toBe(2)
+
+  await adapter.delete('v')
+  const resurrect = adapter.set(
+    'v',
+    { data: { userId: 'gone' }, expiresAt, version: 3 },
+    { expectedVersion: 2 }
+  )
+  await expect(resurrect).rejects.toBeInstanceOf(SessionConflictError)
+}
+
+describe('compare-and-set writes', () => {
+  it('checks versions in the memory adapter', async () => {
+    await expectCompareAndSet(createMemorySessionAdapter<IndexedSession>())
+  })
+
+  it('checks versions in the file adapter', async () => {
+    const tempPath = join(
+      process.cwd(),
+      '.tmp',
+      `session-cas-${Date.now()}-${Math.random().toString(16).slice(2)}.json`
+    )
+
+    await expectCompareAndSet(createFileSessionAdapter<IndexedSession>({ filePath: tempPath }))
+
+    await rm(tempPath, { force: true })
+  })
+
+  it('checks versions in the sharded file adapter', async () => {
+    const directory = join(process.cwd(), '.tmp', `session-cas-${Date.now()}`)
+
+    await expectCompareAndSet(createFileSessionAdapter<IndexedSession>({ directory }))
+
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('checks versions in the sqlite adapter with a conditional upsert', async () => {
+    await expectCompareAndSet(
+      createSqliteSessionAdapter<IndexedSession>({ database: new Database(':memory:') })
+    )
+  })
+
+  it('checks versions in the redis adapter with a Lua script', async () => {
+    await expectCompareAndSet(
+      createRedisSessionAdapter<IndexedSession>({
+        client: createFakeRedisClient(Date.now)
+      })
+    )
+  })
+
+  it('checks versions in the drizzle adapter with a conditional update', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        version INTEGER,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      version: integer('version'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    await expectCompareAndSet(
+      createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+        db: drizzle(sqlite),
+        table: sessions,
+        columns: {
+          id: (table) => table.id,
+          data: (table) => table.data,
+          version: (table) => table.version,
+          expiresAt: (table) => table.expiresAt
+        },
+        serializeExpiresAt: (value) => value,
+        deserializeExpiresAt: (value) => Number(value)
+      })
+    )
+
+    sqlite.close()
+  })
+})
+
+describe('delta writes', () => {
+  type ProfileSession = {
+    userId: string | null
+    visits: number
+    theme?: string
+  }
+
+  it('patches changed keys of live memory sessions only', async () => {
+    const adapter = createMemorySessionAdapter<ProfileSession>()
+    const expiresAt = Date.now() + 10_000
+
+    expect(
+      await adapter.patch!('missing', { set: { visits: 1 }, unset: [], expiresAt })
+    ).toBe(false)
+
+    await adapter.set('m', {
+      data: { userId: 'u1', visits: 1, theme: 'dark' },
+      expiresAt,
+      flash: { notice: 'hi' }
+    })
+
+    expect(
+      await adapter.patch!('m', { set: { visits: 2 }, unset: ['theme'], expiresAt, version: 4 })
+    ).toBe(true)
+
+    expect(await adapter.get('m')).toEqual({
+      data: { userId: 'u1', visits: 2 },
+      expiresAt,
+      version: 4
+    })
+  })
+
+  it('merges changed keys of live sqlite sessions in a transaction', async () => {
+    const adapter = createSqliteSessionAdapter<ProfileSession>({
+      database: new Database(':memory:'),
+      userKey: (data) => data.userId
+    })
+    const expiresAt = Date.now() + 10_000
+
+    expect(
+      await adapter.patch!('missing', { set: { visits: 1 }, unset: [], expiresAt })
+    ).toBe(false)
+
+    await adapter.set('s', { data: { userId: 'u1', visits: 1, theme: 'dark' }, expiresAt })
+    expect(
+      await adapter.patch!('s', {
+        set: { userId: 'u2', visits: 2 },
+        unset: ['theme'],
+        expiresAt,
+        version: 2
+      })
+    ).toBe(true)
+
+    expect(await adapter.get('s')).toEqual({
+      data: { userId: 'u2', visits: 2 },
+      expiresAt,
+      version: 2
+    })
+    expect(await adapter.listSessionsForUser!('u2')).toEqual(['s'])
+  })
+
+  it('patches hash fields with the redis hash layout', async () => {
+    const client = createFakeRedisClient(Date.now)
+    const adapter = createRedisSessionAdapter<ProfileSession>({
+      client,
+      layout: 'hash',
+      prefix: 'test:'
+    })
+    const expiresAt = Date.now() + 10_000
+
+    expect(await adapter.patch!('h', { set: { visits: 1 }, unset: [], expiresAt })).toBe(false)
+
+    await adapter.set('h', { data: { userId: 'u1', visits: 1, theme: 'dark' }, expiresAt })
+    expect(await client.send!('HGET', ['test:h', 'data:visits'])).toBe('1')
+
+    expect(
+      await adapter.patch!('h', { set: { visits: 2 }, unset: ['theme'], expiresAt })
+    ).toBe(true)
+
+    expect(await client.send!('HGETALL', ['test:h'])).toEqual({
+      expiresAt: String(expiresAt),
+      meta: '{}',
+      'data:userId': '"u1"',
+      'data:visits': '2'
+    })
+    expect((await adapter.get('h'))?.data).toEqual({ userId: 'u1', visits: 2 })
+  })
+
+  it('writes redis hash sessions in one script and never recreates expired ones', async () => {
+    let now = 1_000
+    const client = createFakeRedisClient(() => now)
+    const commands: string[] = []
+    const send = client.send!.bind(client)
+    const del = client.del.bind(client)
+    client.send = (command, args) => {
+      commands.push(command)
+      return send(command, args)
+    }
+    client.del = (key) => {
+      commands.push('DEL')
+      return del(key)
+    }
+
+    const adapter = createRedisSessionAdapter<ProfileSession>({
+      client,
+      layout: 'hash',
+      prefix: 'test:',
+      now: () => now,
+      useNativeTtl: false
+    })
+
+    await adapter.set('h', { data: { userId: 'u1', visits: 1 }, expiresAt: now + 100 })
+    expect(commands).toEqual(['EVAL'])
+
+    // Without native TTL the expired hash stays in Redis and must be left untouched.
+    now += 200
+    commands.length = 0
+    expect(await adapter.patch!('h', { set: { visits: 2 }, unset: [], expiresAt: now + 100 })).toBe(
+      false
+    )
+    expect(await adapter.touch!('h', now + 100)).toBe(false)
+    expect(commands).toEqual(['EVAL', 'EVAL'])
+    expect(await client.send!('HGETALL', ['test:h'])).toEqual({
+      expiresAt: '1100',
+      meta: '{}',
+      'data:userId': '"u1"',
+      'data:visits': '1'
+    })
+  })
+
+  it('updates only the changed columns in drizzle multi-column mode', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        visits INTEGER NOT NULL,
+        theme TEXT,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      userId: text('user_id'),
+      visits: integer('visits').notNull(),
+      theme: text('theme'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    const adapter = createDrizzleSessionAdapter<typeof sessions, ProfileSession>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        expiresAt: (table) => table.expiresAt
+      },
+      dataColumns: {
+        userId: (table) => table.userId,
+        visits: (table) => table.visits,
+        theme: (table) => table.theme
+      },
+      deserializeColumnsData: (raw) => ({
+        userId: (raw.userId as string | null) ?? null,
+        visits: Number(raw.visits),
+        ...(raw.theme ? { theme: String(raw.theme) } : {})
+      }),
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+    const expiresAt = Date.now() + 10_000
+
+    expect(await adapter.patch!('d', { set: { visits: 1 }, unset: [], expiresAt })).toBe(false)
+
+    await adapter.set('d', { data: { userId: 'u1', visits: 1, theme: 'dark' }, expiresAt })
+
+    // A column changed outside this write must survive a patch of other keys.
+    sqlite.exec(`UPDATE sessions SET user_id = 'u2' WHERE id = 'd'`)
+
+    expect(
+      await adapter.patch!('d', { set: { visits: 2 }, unset: ['theme'], expiresAt })
+    ).toBe(true)
+    expect((await adapter.get('d'))?.data).toEqual({ userId: 'u2', visits: 2 })
+
+    sqlite.close()
+  })
+})
+
+describe('expiry refresh', () => {
+  const expectTouch = async (adapter: SessionStoreAdapter<IndexedSession>) => {
+    const expiresAt = Date.now() + 10_000
+
+    expect(await adapter.touch!('missing', expiresAt)).toBe(false)
+
+    await adapter.set('t', { data: { userId: 'u1' }, expiresAt, flash: { notice: 'hi' } })
+    expect(await adapter.touch!('t', expiresAt + 5_000)).toBe(true)
+
+    expect(await adapter.get('t')).toEqual({
+      data: { userId: 'u1' },
+      expiresAt: expiresAt + 5_000,
+      flash: { notice: 'hi' }
+    })
+  }
+
+  it('touches memory sessions', async () => {
+    await expectTouch(createMemorySessionAdapter<IndexedSession>())
+  })
+
+  it('touches sqlite sessions', async () => {
+    await expectTouch(
+      createSqliteSessionAdapter<IndexedSession>({ database: new Database(':memory:') })
+    )
+  })
+
+  it('touches redis sessions with the hash layout', async () => {
+    await expectTouch(
+      createRedisSessionAdapter<IndexedSession>({
+        client: createFakeRedisClient(Date.now),
+        layout: 'hash'
+      })
+    )
+  })
+
+  it('updates only the expiry column in drizzle', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        meta TEXT,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      meta: text('meta'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    await expectTouch(
+      createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+        db: drizzle(sqlite),
+        table: sessions,
+        columns: {
+          id: (table) => table.id,
+          data: (table) => table.data,
+          meta: (table) => table.meta,
+          expiresAt: (table) => table.expiresAt
+        },
+        serializeExpiresAt: (value) => value,
+        deserializeExpiresAt: (value) => Number(value)
+      })
+    )
+
+    sqlite.close()
+  })
+})
+
+describe('session data versions', () => {
+  const expectSchemaVersion = async (adapter: SessionStoreAdapter<IndexedSession>) => {
+    const expiresAt = Date.now() + 10_000
+
+    await adapter.set('s', { data: { userId: 'u1' }, expiresAt, schemaVersion: 3 })
+    expect((await adapter.get('s'))?.schemaVersion).toBe(3)
+  }
+
+  it('stores the data version with memory, file, sqlite and redis sessions', async () => {
+    const tempPath = join(
+      process.cwd(),
+      '.tmp',
+      `session-version-${Date.now()}-${Math.random().toString(16).slice(2)}.json`
+    )
+
+    await expectSchemaVersion(createMemorySessionAdapter<IndexedSession>())
+    await expectSchemaVersion(createFileSessionAdapter<IndexedSession>({ filePath: tempPath }))
+    await expectSchemaVersion(
+      createSqliteSessionAdapter<IndexedSession>({ database: new Database(':memory:') })
+    )
+    await expectSchemaVersion(
+      createRedisSessionAdapter<IndexedSession>({ client: createFakeRedisClient(Date.now) })
+    )
+    await expectSchemaVersion(
+      createRedisSessionAdapter<IndexedSession>({
+        client: createFakeRedisClient(Date.now),
+        layout: 'hash'
+      })
+    )
+
+    await rm(tempPath, { force: true })
+  })
+
+  it('stores the data version in a drizzle column with dataColumns', async () => {
+    const sqlite = new Database(':memory:')
+
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        schema_version INTEGER,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      userId: text('user_id'),
+      schemaVersion: integer('schema_version'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    await expectSchemaVersion(
+      createDrizzleSessionAdapter<typeof sessions, IndexedSession>({
+        db: drizzle(sqlite),
+        table: sessions,
+        columns: {
+          id: (table) => table.id,
+          schemaVersion: (table) => table.schemaVersion,
+          expiresAt: (table) => table.expiresAt
+        },
+        dataColumns: {
+          userId: (table) => table.userId
+        },
+        serializeExpiresAt: (value) => value,
+        deserializeExpiresAt: (value) => Number(value)
+      })
+    )
+
+    expect(sqlite.query('SELECT schema_version FROM sessions').get()).toEqual({
+      schema_version: 3
+    })
+
+    sqlite.close()
+  })
+})
+
+describe('encryption at rest', () => {
+  type SecretSession = { accessToken: string }
+
+  const currentKey = { id: 'k2', secret: 'current-secret' }
+  const previousKey = { id: 'k1', secret: 'previous-secret' }
+
+  const expectEncrypted = async (inner: SessionStoreAdapter, readRaw: () => Promise<string>) => {
+    const adapter = withEncryption<SecretSession>(inner, { keys: [currentKey] })
+    const session = {
+      data: { accessToken: 'oauth-token' },
+      expiresAt: Date.now() + 10_000,
+      createdAt: 1_700_000_000_000,
+      schemaVersion: 2,
+      flash: { notice: 'flash-notice' },
+      csrfSecret: 'csrf-secret',
+      fingerprint: 'client-fingerprint'
+    }
+
+    await adapter.set('e', session)
+
+    const raw = await readRaw()
+    for (const secret of ['oauth-token', 'flash-notice', 'csrf-secret', 'client-fingerprint']) {
+      expect(raw).not.toContain(secret)
+    }
+    expect((await inner.get('e'))?.data.keyId).toBe('k2')
+    expect(await adapter.get('e')).toEqual(session)
+  }
+
+  it('encrypts data in the memory, file, redis and drizzle adapters', async () => {
+    const memory = createMemorySessionAdapter()
+    await expectEncrypted(memory, async () => JSON.stringify(await memory.get('e')))
+
+    // Expiry and the compare-and-set version stay readable for the wrapped adapter.
+    const versioned = withEncryption<SecretSession>(memory, { keys: [currentKey] })
+    const expiresAt = Date.now() + 10_000
+    await versioned.set('v', { data: { accessToken: 'a' }, expiresAt, version: 3 })
+    expect(await memory.get('v')).toMatchObject({ expiresAt, version: 3 })
+    expect(Object.keys((await memory.get('v'))!).sort()).toEqual(['data', 'expiresAt', 'version'])
+    expect(versioned.metadata).toBeUndefined()
+
+    const tempPath = join(
+      process.cwd(),
+      '.tmp',
+      `session-encrypted-${Date.now()}-${Math.random().toString(16).slice(2)}.json`
+    )
+    await expectEncrypted(createFileSessionAdapter({ filePath: tempPath }), () =>
+      readFile(tempPath, 'utf8')
+    )
+    await rm(tempPath, { force: true })
+
+    const client = createFakeRedisClient(Date.now)
+    await expectEncrypted(
+      createRedisSessionAdapter({ client }),
+      async () => (await client.get('session:e')) ?? ''
+    )
+
+    const sqlite = new Database(':memory:')
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `)
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    await expectEncrypted(
+      createDrizzleSessionAdapter({
+        db: drizzle(sqlite),
+        table: sessions,
+        columns: {
+          id: (table) => table.id,
+          data: (table) => table.data,
+          expiresAt: (table) => table.expiresAt
+        },
+        serializeExpiresAt: (value) => value,
+        deserializeExpiresAt: (value) => Number(value)
+      }),
+      async () => JSON.stringify(sqlite.query('SELECT data FROM sessions').all())
+    )
+
+    sqlite.close()
+  })
+
+  it('reads older keys and re-encrypts with the current key on write', async () => {
+    const inner = createMemorySessionAdapter()
+    const expiresAt = Date.now() + 10_000
+
+    await withEncryption<SecretSession>(inner, { keys: [previousKey] }).set('r', {
+      data: { accessToken: 'old' },
+      expiresAt
+    })
+
+    const rotated = withEncryption<SecretSession>(inner, { keys: [currentKey, previousKey] })
+    const loaded = await rotated.get('r')
+    expect(loaded?.data.accessToken).toBe('old')
+    expect((await inner.get('r'))?.data.keyId).toBe('k1')
+
+    await rotated.set('r', loaded!)
+    expect((await inner.get('r'))?.data.keyId).toBe('k2')
+
+    const retired = withEncryption<SecretSession>(inner, { keys: [currentKey] })
+    expect((await retired.get('r'))?.data.accessToken).toBe('old')
+  })
+
+  it('rejects ciphertexts copied to another session id', async () => {
+    const inner = createMemorySessionAdapter()
+    const adapter = withEncryption<SecretSession>(inner, { keys: [currentKey] })
+    const expiresAt = Date.now() + 10_000
+
+    await adapter.set('victim', { data: { accessToken: 'victim-token' }, expiresAt })
+    await inner.set('attacker', (await inner.get('victim'))!)
+
+    expect(await adapter.get('attacker')).toBeNull()
+    expect(() => withEncryption(inner, { keys: [] })).toThrow('Encryption keys')
+  })
+})
+
+describe('tiered adapter', () => {
+  const countReads = (adapter: SessionStoreAdapter<IndexedSession>) => {
+    const reads = { count: 0 }
+    const get = adapter.get.bind(adapter)
+
+    adapter.get = async (id) => {
+      reads.count += 1
+      return get(id)
+    }
+
+    return reads
+  }
+
+  it('serves hot sessions from the local tier until localTtl passes', async () => {
+    let now = 1_000
+    const remote = createMemorySessionAdapter<IndexedSession>({ now: () => now })
+    const reads = countReads(remote)
+    const adapter = createTieredSessionAdapter({
+      local: createMemorySessionAdapter({ now: () => now }),
+      remote,
+      localTtl: 100,
+      now: () => now
+    })
+
+    await adapter.set('t', { data: { userId: 'u1' }, expiresAt: now + 10_000, version: 1 })
+    expect(await adapter.get('t')).toEqual({
+      data: { userId: 'u1' },
+      expiresAt: now + 10_000,
+      version: 1
+    })
+    await adapter.get('t')
+    expect(reads.count).toBe(0)
+
+    now += 150
+    expect((await adapter.get('t'))?.data.userId).toBe('u1')
+    expect(reads.count).toBe(1)
+
+    await adapter.delete('t')
+    expect(await adapter.get('t')).toBeNull()
+    expect(await remote.get('t')).toBeNull()
+  })
+
+  it('evicts local copies on other instances through the invalidation bus', async () => {
+    const remote = createMemorySessionAdapter<IndexedSession>()
+    const invalidation = createLocalInvalidationBus()
+    const createInstance = () =>
+      createTieredSessionAdapter({ local: createMemorySessionAdapter(), remote, invalidation })
+    const first = createInstance()
+    const second = createInstance()
+    const expiresAt = Date.now() + 10_000
+
+    await first.set('shared', { data: { userId: 'u1' }, expiresAt })
+    expect((await second.get('shared'))?.data.userId).toBe('u1')
+
+    await first.set('shared', { data: { userId: 'u2' }, expiresAt })
+    expect((await second.get('shared'))?.data.userId).toBe('u2')
+
+    await first.delete('shared')
+    expect(await second.get('shared')).toBeNull()
+  })
+
+  it('drops a stale local copy when a compare-and-set write conflicts', async () => {
+    const remote = createMemorySessionAdapter<IndexedSession>()
+    const adapter = createTieredSessionAdapter({ local: createMemorySessionAdapter(), remote })
+    const expiresAt = Date.now() + 10_000
+
+    await adapter.set('c', { data: { userId: 'u1' }, expiresAt, version: 1 })
+    await remote.set('c', { data: { userId: 'u2' }, expiresAt, version: 2 })
+
+    const stale = adapter.set('c', { data: { userId: 'u3' }, expiresAt, version: 2 }, {
+      expectedVersion: 1
+    })
+    await expect(stale).rejects.toBeInstanceOf(SessionConflictError)
+    expect(await adapter.get('c')).toMatchObject({ data: { userId: 'u2' }, version: 2 })
+  })
+
+  it('sends invalidations over redis pub/sub', async () => {
+    const channels = new Map<string, (message: string, channel: string) => void>()
+    const bus = createRedisInvalidationBus({
+      publisher: {
+        publish(channel, message) {
+          channels.get(channel)?.(message, channel)
+        }
+      },
+      subscriber: {
+        subscribe(channel, listener) {
+          channels.set(channel, listener)
+        },
+        unsubscribe(channel) {
+          channels.delete(channel)
+        }
+      }
+    })
+    const received: string[] = []
+
+    const stop = bus.subscribe((message) => received.push(`${message.origin}:${message.id}`))
+    await bus.publish({ id: 's1', origin: 'node-a' })
+    expect(received).toEqual(['node-a:s1'])
+
+    stop()
+    expect(channels.size).toBe(0)
+  })
+
+  it('reports failed subscriptions and evictions through onError', async () => {
+    const errors: unknown[] = []
+    const bus = createRedisInvalidationBus({
+      publisher: { publish() {} },
+      subscriber: {
+        subscribe: () => Promise.reject(new Error('subscribe failed')),
+        unsubscribe() {
+          throw new Error('unsubscribe failed')
+        }
+      },
+      onError: (error) => errors.push(error)
+    })
+
+    bus.subscribe(() => {})()
+    await Bun.sleep(0)
+    expect(errors.map((error) => (error as Error).message)).toEqual([
+      'unsubscribe failed',
+      'subscribe failed'
+    ])
+
+    const invalidation = createLocalInvalidationBus()
+    const local = createMemorySessionAdapter()
+    local.delete = () => Promise.reject(new Error('evict failed'))
+    createTieredSessionAdapter({
+      local,
+      remote: createMemorySessionAdapter(),
+      invalidation,
+      onError: (error) => errors.push(error)
+    })
+
+    await invalidation.publish({ id: 's1', origin: 'elsewhere' })
+    await Bun.sleep(0)
+    expect((errors[2] as Error).message).toBe('evict failed')
+  })
+
+  it('stops listening for invalidations once closed', async () => {
+    const invalidation = createLocalInvalidationBus()
+    const local = createMemorySessionAdapter()
+    const adapter = createTieredSessionAdapter({
+      local,
+      remote: createMemorySessionAdapter(),
+      invalidation
+    })
+    const session = { data: {}, expiresAt: Date.now() + 10_000 }
+
+    await adapter.set('s1', session)
+    adapter.close()
+    await invalidation.publish({ id: 's1', origin: 'elsewhere' })
+    expect(await local.get('s1')).not.toBeNull()
+  })
+})
@@ -1,12 +1,55 @@
-import { describe, expect, it } from 'bun:test'
-import { Elysia } from 'elysia'
-import { betterSession, createMemorySessionAdapter } from '../src'
+import { describe, expect, it, setSystemTime } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { drizzle } from 'drizzle-orm/bun-sqlite'
+import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core'
+import { Elysia, t } from 'elysia'
+import {
+  betterSession,
+  createDrizzleSessionAdapter,
+  createMemorySessionAdapter,
+  createRedisSessionAdapter,
+  createSessionEvents,
+  type JsonObject,
+  type SessionBindingOptions,
+  type SessionInvalidPolicy,
+  type StandardSchemaV1
+} from '../src'
 
 type PluginSession = {
   visits: number
   userId: string | null
 }
 
+/** Drizzle adapter over a table without `meta` or `schema_version` columns. */
+const createBaselineDrizzleAdapter = () => {
+  const sqlite = new Database(':memory:')
+  sqlite.exec(`
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+  `)
+
+  const sessions = sqliteTable('sessions', {
+    id: text('id').primaryKey(),
+    data: text('data').notNull(),
+    expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+  })
+
+  return createDrizzleSessionAdapter({
+    db: drizzle(sqlite),
+    table: sessions,
+    columns: {
+      id: (table) => table.id,
+      data: (table) => table.data,
+      expiresAt: (table) => table.expiresAt
+    },
+    serializeExpiresAt: (value) => value,
+    deserializeExpiresAt: (value) => Number(value)
+  })
+}
+
 const cookiePair = (setCookie: string | null): string | null => {
   if (!setCookie) {
     return null
@@ -168,4 +211,1388 @@ describe('betterSession plugin', () => {
     const stateBody = (await state.json()) as { visits: number }
     expect(stateBody.visits).toBe(1)
   })
+
+  it('signs session cookies and rejects forged ids before reaching the adapter', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const lookups: string[] = []
+    const get = adapter.get.bind(adapter)
+    adapter.get = async (id) => {
+      lookups.push(id)
+      return get(id)
+    }
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 60_000,
+          secret: 'current-secret',
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { visits: session.get('visits') }
+      })
+
+    const first = await app.handle(new Request('http://localhost/visit'))
+    const firstCookie = cookiePair(first.headers.get('set-cookie'))
+    expect(firstCookie).not.toBeNull()
+
+    const [, signedValue] = (firstCookie ?? '').split('=')
+    const [id] = decodeURIComponent(signedValue ?? '').split('.')
+    expect(id).toBeTruthy()
+
+    const forged = await app.handle(
+      new Request('http://localhost/visit', {
+        headers: {
+          cookie: `sid=${id}`
+        }
+      })
+    )
+    const forgedBody = (await forged.json()) as { visits: number }
+    expect(forgedBody.visits).toBe(1)
+    expect(lookups).toHaveLength(0)
+
+    const second = await app.handle(
+      new Request('http://localhost/visit', {
+        headers: {
+          cookie: firstCookie ?? ''
+        }
+      })
+    )
+    const secondBody = (await second.json()) as { visits: number }
+    expect(secondBody.visits).toBe(2)
+    expect(lookups).toEqual([id ?? ''])
+  })
+
+  it('accepts cookies signed with older secrets and re-signs them', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const options = {
+      adapter,
+      ttl: 60_000,
+      rolling: false,
+      initialData: () => ({
+        visits: 0,
+        userId: null
+      })
+    }
+
+    const before = new Elysia()
+      .use(betterSession<PluginSession>({ ...options, secret: 'old-secret' }))
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { visits: session.get('visits') }
+      })
+
+    const after = new Elysia()
+      .use(betterSession<PluginSession>({ ...options, secrets: ['new-secret', 'old-secret'] }))
+      .get('/read', ({ session }) => ({ visits: session.get('visits') }))
+
+    const first = await before.handle(new Request('http://localhost/visit'))
+    const oldCookie = cookiePair(first.headers.get('set-cookie'))
+
+    const rotated = await after.handle(
+      new Request('http://localhost/read', {
+        headers: {
+          cookie: oldCookie ?? ''
+        }
+      })
+    )
+    const rotatedBody = (await rotated.json()) as { visits: number }
+    expect(rotatedBody.visits).toBe(1)
+
+    const newCookie = cookiePair(rotated.headers.get('set-cookie'))
+    expect(newCookie).not.toBeNull()
+    expect(newCookie).not.toBe(oldCookie)
+
+    const again = await after.handle(
+      new Request('http://localhost/read', {
+        headers: {
+          cookie: newCookie ?? ''
+        }
+      })
+    )
+    expect(again.headers.get('set-cookie')).toBeNull()
+  })
+
+  it('keeps the whole session encrypted in chunked cookies with cookieStore', async () => {
+    type NotesSession = { notes: string[] }
+
+    const app = new Elysia()
+      .use(
+        betterSession<NotesSession>({
+          cookieStore: {
+            secret: 'cookie-store-secret'
+          },
+          ttl: 60_000,
+          initialData: () => ({ notes: [] })
+        })
+      )
+      .post('/notes/:count', ({ params, session }) => {
+        session.set(
+          'notes',
+          Array.from({ length: Number(params.count) }, (_value, index) => `note-${index}`)
+        )
+        return { id: session.id }
+      })
+      .get('/notes', ({ session }) => ({
+        id: session.id,
+        count: session.get('notes').length
+      }))
+
+    const readCookies = (response: Response): string =>
+      response.headers
+        .getSetCookie()
+        .filter((value) => !value.includes('Max-Age=0'))
+        .map((value) => cookiePair(value))
+        .join('; ')
+
+    const small = await app.handle(new Request('http://localhost/notes/2', { method: 'POST' }))
+    const smallCookies = readCookies(small)
+    expect(smallCookies.startsWith('sid=')).toBe(true)
+    expect(smallCookies).not.toContain('note-0')
+
+    const large = await app.handle(
+      new Request('http://localhost/notes/600', {
+        method: 'POST',
+        headers: {
+          cookie: smallCookies
+        }
+      })
+    )
+    const largeId = ((await large.json()) as { id: string }).id
+    const largeSetCookies = large.headers.getSetCookie()
+    expect(largeSetCookies.some((value) => value.startsWith('sid.1='))).toBe(true)
+    expect(largeSetCookies.some((value) => value.startsWith('sid=;'))).toBe(true)
+    expect(largeSetCookies.every((value) => value.length <= 4096)).toBe(true)
+
+    const read = await app.handle(
+      new Request('http://localhost/notes', {
+        headers: {
+          cookie: readCookies(large)
+        }
+      })
+    )
+    const readBody = (await read.json()) as { id: string; count: number }
+    expect(readBody).toEqual({ id: largeId, count: 600 })
+
+    const tampered = await app.handle(
+      new Request('http://localhost/notes', {
+        headers: {
+          cookie: `${smallCookies.slice(0, -2)}xx`
+        }
+      })
+    )
+    const tamperedBody = (await tampered.json()) as { count: number }
+    expect(tamperedBody.count).toBe(0)
+  })
+
+  it('reads and returns session ids through header and bearer transports', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 60_000,
+          secret: 'transport-secret',
+          transport: ['bearer', 'cookie'],
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { visits: session.get('visits') }
+      })
+      .post('/rotate', async ({ session }) => ({ id: await session.regenerate() }))
+      .post('/logout', async ({ session }) => {
+        await session.destroy()
+        return { ok: true }
+      })
+
+    const bearer = (token: string | null) => ({ authorization: `Bearer ${token ?? ''}` })
+
+    // Without an incoming id, new sessions use the first transport.
+    const first = await app.handle(new Request('http://localhost/visit'))
+    const token = first.headers.get('x-session-id')
+    expect(token).toBeTruthy()
+    expect(first.headers.get('set-cookie')).toBeNull()
+
+    const second = await app.handle(
+      new Request('http://localhost/visit', { headers: bearer(token) })
+    )
+    expect(((await second.json()) as { visits: number }).visits).toBe(2)
+    expect(second.headers.get('x-session-id')).toBeNull()
+
+    const rotated = await app.handle(
+      new Request('http://localhost/rotate', { method: 'POST', headers: bearer(token) })
+    )
+    const rotatedToken = rotated.headers.get('x-session-id')
+    expect(rotatedToken).toBeTruthy()
+    expect(rotatedToken).not.toBe(token)
+    const rotatedBody = (await rotated.json()) as { id: string }
+    expect(rotatedToken?.split('.')[0]).toBe(rotatedBody.id)
+
+    const logout = await app.handle(
+      new Request('http://localhost/logout', { method: 'POST', headers: bearer(rotatedToken) })
+    )
+    expect(logout.headers.get('x-session-id')).toBe('')
+    expect(await adapter.count!()).toBe(0)
+
+    // Browsers holding a cookie keep receiving Set-Cookie.
+    const browser = await app.handle(
+      new Request('http://localhost/visit', { headers: { cookie: 'sid=stale' } })
+    )
+    expect(browser.headers.get('set-cookie')).toContain('sid=')
+    expect(browser.headers.get('x-session-id')).toBeNull()
+  })
+
+  it('reads ids from a custom header and rejects transports cookieStore cannot use', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 60_000,
+          transport: { type: 'header', name: 'X-Api-Session' },
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { visits: session.get('visits') }
+      })
+
+    const first = await app.handle(new Request('http://localhost/visit'))
+    const id = first.headers.get('x-api-session')
+    expect(id).toBeTruthy()
+
+    const second = await app.handle(
+      new Request('http://localhost/visit', {
+        headers: { 'x-api-session': id ?? '', cookie: `sid=${id}` }
+      })
+    )
+    expect(((await second.json()) as { visits: number }).visits).toBe(2)
+    expect(second.headers.get('set-cookie')).toBeNull()
+
+    expect(() =>
+      betterSession({ cookieStore: { secret: 'cookie-store-secret' }, transport: 'header' })
+    ).toThrow('only supports the cookie transport')
+  })
+
+  it('runs independently named sessions side by side', async () => {
+    type AdminSession = { adminId: string | null }
+    const adminAdapter = createMemorySessionAdapter<AdminSession>()
+    const customerAdapter = createMemorySessionAdapter<PluginSession>()
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter: customerAdapter,
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .use(
+        betterSession({
+          name: 'admin',
+          decorateAs: 'adminSession',
+          adapter: adminAdapter,
+          ttl: 5_000,
+          cookie: { name: 'admin_sid', path: '/admin' },
+          initialData: (): AdminSession => ({ adminId: null })
+        })
+      )
+      .post('/admin/login', ({ adminSession, session }) => {
+        const adminId: string | null = adminSession.get('adminId')
+        adminSession.set('adminId', adminId ?? 'root')
+        session.set('visits', session.get('visits') + 1)
+        return { ok: true }
+      })
+
+    const login = await app.handle(new Request('http://localhost/admin/login', { method: 'POST' }))
+    const cookies = login.headers.getSetCookie()
+    const admin = cookies.find((value) => value.startsWith('admin_sid='))
+    const customer = cookies.find((value) => value.startsWith('sid='))
+
+    expect(cookies).toHaveLength(2)
+    expect(admin).toContain('Path=/admin')
+    expect(customer).toContain('Path=/')
+
+    const [adminId] = (await adminAdapter.ids!()) as [string]
+    const [customerId] = (await customerAdapter.ids!()) as [string]
+    expect(adminId).not.toBe(customerId)
+    expect((await adminAdapter.get(adminId))?.data).toEqual({ adminId: 'root' })
+    expect((await customerAdapter.get(customerId))?.data).toEqual({ visits: 1, userId: null })
+
+    expect(() => betterSession({ adapter: adminAdapter, decorateAs: '' })).toThrow(
+      'must not be empty'
+    )
+  })
+
+  it('binds sessions to the user agent and applies the mismatch policy', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const mismatches: string[] = []
+    let action: 'ignore' | 'regenerate' | 'destroy' = 'destroy'
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          binding: {
+            policy: ({ id }) => {
+              mismatches.push(id)
+              return action
+            }
+          },
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { id: session.id, visits: session.get('visits') }
+      })
+
+    const visit = async (cookie: string, userAgent: string) => {
+      const response = await app.handle(
+        new Request('http://localhost/visit', { headers: { cookie, 'user-agent': userAgent } })
+      )
+      const body = (await response.json()) as { id: string; visits: number }
+      // A replaced session clears the old cookie before setting the new one.
+      const setCookie = response.headers.getSetCookie().at(-1) ?? null
+      return { ...body, cookie: cookiePair(setCookie) ?? cookie }
+    }
+
+    const first = await visit('', 'phone')
+    expect((await adapter.get(first.id))?.fingerprint).toBeString()
+    expect((await visit(first.cookie, 'phone')).visits).toBe(2)
+
+    const stolen = await visit(first.cookie, 'laptop')
+    expect(mismatches).toEqual([first.id])
+    expect(stolen.visits).toBe(1)
+    expect(stolen.id).not.toBe(first.id)
+    expect(await adapter.get(first.id)).toBeNull()
+
+    action = 'regenerate'
+    const fresh = await visit(stolen.cookie, 'tablet')
+    // The mismatching client starts over and never sees the bound session's data.
+    expect(fresh.visits).toBe(1)
+    expect(fresh.id).not.toBe(stolen.id)
+    expect((await adapter.get(stolen.id))?.data.visits).toBe(1)
+    expect((await visit(fresh.cookie, 'tablet')).visits).toBe(2)
+    expect((await visit(stolen.cookie, 'laptop')).visits).toBe(2)
+
+    action = 'ignore'
+    const ignored = await visit(fresh.cookie, 'phone')
+    expect(ignored.id).toBe(fresh.id)
+    expect(ignored.visits).toBe(3)
+    expect(mismatches).toHaveLength(3)
+  })
+
+  it('binds to an IP prefix and adopts sessions created before binding', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const createApp = (binding?: SessionBindingOptions<PluginSession>) =>
+      new Elysia()
+        .use(
+          betterSession<PluginSession>({
+            adapter,
+            binding,
+            initialData: () => ({
+              visits: 0,
+              userId: null
+            })
+          })
+        )
+        .get('/visit', ({ session }) => {
+          session.set('visits', session.get('visits') + 1)
+          return { visits: session.get('visits') }
+        })
+
+    const unbound = createApp()
+    const bound = createApp({
+      fingerprint: 'ip',
+      clientIp: (request) => request.headers.get('x-forwarded-for')
+    })
+
+    const visit = async (cookie: string, ip: string) => {
+      const response = await bound.handle(
+        new Request('http://localhost/visit', { headers: { cookie, 'x-forwarded-for': ip } })
+      )
+      return ((await response.json()) as { visits: number }).visits
+    }
+
+    const first = await unbound.handle(new Request('http://localhost/visit'))
+    const cookie = cookiePair(first.headers.get('set-cookie')) ?? ''
+
+    expect(await visit(cookie, '203.0.113.7')).toBe(2)
+    expect(await visit(cookie, '203.0.113.200')).toBe(3)
+    expect(await visit(cookie, '::ffff:203.0.113.9')).toBe(4)
+    expect(await visit(cookie, '198.51.100.7')).toBe(1)
+  })
+
+  it('reports lifecycle events to callbacks and the event emitter', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const events = createSessionEvents<PluginSession>()
+    const log: string[] = []
+    const emitted: string[] = []
+
+    events.on('create', ({ id }) => {
+      emitted.push(`create ${id}`)
+    })
+    const stopLoad = events.on('load', ({ data }) => {
+      emitted.push(`load ${data.visits}`)
+    })
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          events,
+          onCreate: ({ data }) => {
+            log.push(`create ${data.visits}`)
+          },
+          onLoad: ({ data }) => {
+            log.push(`load ${data.visits}`)
+          },
+          onSave: ({ data }) => {
+            log.push(`save ${data.visits}`)
+          },
+          onRegenerate: (oldId, newId, { id }) => {
+            log.push(`regenerate ${oldId} ${newId} ${id}`)
+          },
+          onDestroy: ({ data }) => {
+            log.push(`destroy ${data.visits}`)
+          },
+          onExpired: ({ id }) => {
+            log.push(`expired ${id}`)
+          },
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return { id: session.id }
+      })
+      .post('/login', async ({ session }) => ({ id: await session.regenerate() }))
+      .post('/logout', async ({ session }) => {
+        await session.destroy()
+        return { ok: true }
+      })
+
+    const send = (path: string, cookie = '', method = 'GET') =>
+      app.handle(new Request(`http://localhost${path}`, { method, headers: { cookie } }))
+
+    const first = await send('/visit')
+    const { id } = (await first.json()) as { id: string }
+    const cookie = cookiePair(first.headers.get('set-cookie')) ?? ''
+    expect(log).toEqual(['create 1', 'save 1'])
+    expect(emitted).toEqual([`create ${id}`])
+
+    await send('/visit', cookie)
+    stopLoad()
+    const login = await send('/login', cookie, 'POST')
+    const { id: loginId } = (await login.json()) as { id: string }
+    const loginCookie = cookiePair(login.headers.get('set-cookie')) ?? ''
+    await send('/logout', loginCookie, 'POST')
+    await send('/visit', loginCookie)
+
+    expect(log.slice(2)).toEqual([
+      'load 1',
+      'save 2',
+      'load 2',
+      `regenerate ${id} ${loginId} ${loginId}`,
+      'save 2',
+      'load 2',
+      'destroy 2',
+      `expired ${loginId}`,
+      'create 1',
+      'save 1'
+    ])
+    expect(emitted).toEqual([`create ${id}`, 'load 1', expect.stringMatching(/^create /)])
+  })
+
+  it('does not report lazy sessions that were never written', async () => {
+    const log: string[] = []
+    const record = (event: string) => () => {
+      log.push(event)
+    }
+
+    const app = new Elysia()
+      .use(
+        betterSession({
+          adapter: createMemorySessionAdapter(),
+          createOnRequest: false,
+          onCreate: record('create'),
+          onSave: record('save'),
+          onRegenerate: record('regenerate'),
+          onDestroy: record('destroy')
+        })
+      )
+      .post('/', async ({ session }) => {
+        await session.regenerate()
+        await session.destroy()
+        return { ok: true }
+      })
+
+    await app.handle(new Request('http://localhost/', { method: 'POST' }))
+    expect(log).toEqual([])
+  })
+
+  it('reports sessions deleted by the binding or validation policy as destroyed', async () => {
+    const adapter = createMemorySessionAdapter<{ visits: number }>()
+    const destroyed: string[] = []
+
+    const app = new Elysia()
+      .use(
+        betterSession({
+          adapter,
+          binding: true,
+          invalidSession: 'destroy',
+          schema: t.Object({ visits: t.Number() }),
+          onDestroy: ({ id, data }) => {
+            destroyed.push(`${id} ${JSON.stringify(data.visits)}`)
+          },
+          initialData: () => ({ visits: 1 })
+        })
+      )
+      .get('/', ({ session }) => ({ id: session.id }))
+
+    const visit = async (cookie: string, userAgent: string) => {
+      const response = await app.handle(
+        new Request('http://localhost/', { headers: { cookie, 'user-agent': userAgent } })
+      )
+      const { id } = (await response.json()) as { id: string }
+      return { id, cookie: cookiePair(response.headers.getSetCookie().at(-1) ?? null) ?? '' }
+    }
+
+    const bound = await visit('', 'phone')
+    await visit(bound.cookie, 'laptop')
+    expect(await adapter.get(bound.id)).toBeNull()
+
+    const invalid = await visit('', 'phone')
+    await adapter.set(invalid.id, {
+      ...(await adapter.get(invalid.id))!,
+      data: { visits: 'many' } as never
+    })
+    await visit(invalid.cookie, 'phone')
+    expect(await adapter.get(invalid.id)).toBeNull()
+
+    expect(destroyed).toEqual([`${bound.id} 1`, `${invalid.id} "many"`])
+  })
+
+  it('keeps flash values for exactly one following request', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 60_000,
+          rolling: false,
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .post('/form', ({ session }) => {
+        session.flash('notice', 'Saved.')
+        return { notice: session.getFlash('notice') ?? null }
+      })
+      .get('/page', ({ session }) => ({
+        notice: session.getFlash<string>('notice') ?? null
+      }))
+      .get('/noop', () => ({ ok: true }))
+
+    const form = await app.handle(new Request('http://localhost/form', { method: 'POST' }))
+    const formBody = (await form.json()) as { notice: string | null }
+    expect(formBody.notice).toBeNull()
+
+    const sessionCookie = cookiePair(form.headers.get('set-cookie')) ?? ''
+    const request = (path: string) =>
+      app.handle(
+        new Request(`http://localhost${path}`, {
+          headers: {
+            cookie: sessionCookie
+          }
+        })
+      )
+
+    const page = await request('/page')
+    expect(((await page.json()) as { notice: string | null }).notice).toBe('Saved.')
+
+    const reload = await request('/page')
+    expect(((await reload.json()) as { notice: string | null }).notice).toBeNull()
+
+    const again = await app.handle(
+      new Request('http://localhost/form', {
+        method: 'POST',
+        headers: {
+          cookie: sessionCookie
+        }
+      })
+    )
+    expect(again.status).toBe(200)
+
+    await request('/noop')
+    const skipped = await request('/page')
+    expect(((await skipped.json()) as { notice: string | null }).notice).toBeNull()
+  })
+
+  it('rejects unsafe requests without a valid csrf token and rotates it on regenerate', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    let handled = 0
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 60_000,
+          csrf: true,
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/form', ({ session }) => ({ token: session.csrfToken() }))
+      .post('/submit', () => {
+        handled += 1
+        return { ok: true }
+      })
+      .post('/login', async ({ session }) => {
+        handled += 1
+        await session.regenerate()
+        return { token: session.csrfToken() }
+      })
+
+    const form = await app.handle(new Request('http://localhost/form'))
+    const { token } = (await form.json()) as { token: string }
+    const sessionCookie = cookiePair(form.headers.get('set-cookie')) ?? ''
+
+    const missing = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: {
+          cookie: sessionCookie
+        }
+      })
+    )
+    expect(missing.status).toBe(403)
+    expect(handled).toBe(0)
+
+    const viaHeader = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: {
+          cookie: sessionCookie,
+          'x-csrf-token': token
+        }
+      })
+    )
+    expect(viaHeader.status).toBe(200)
+
+    const viaForm = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: {
+          cookie: sessionCookie,
+          'content-type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({ _csrf: token }).toString()
+      })
+    )
+    expect(viaForm.status).toBe(200)
+    expect(handled).toBe(2)
+
+    const login = await app.handle(
+      new Request('http://localhost/login', {
+        method: 'POST',
+        headers: {
+          cookie: sessionCookie,
+          'x-csrf-token': token
+        }
+      })
+    )
+    const rotated = (await login.json()) as { token: string }
+    const rotatedCookie = cookiePair(login.headers.get('set-cookie')) ?? ''
+
+    const stale = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: {
+          cookie: rotatedCookie,
+          'x-csrf-token': token
+        }
+      })
+    )
+    expect(stale.status).toBe(403)
+
+    const fresh = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: {
+          cookie: rotatedCookie,
+          'x-csrf-token': rotated.token
+        }
+      })
+    )
+    expect(fresh.status).toBe(200)
+  })
+
+  it('skips the csrf check for session ids sent on a header transport', async () => {
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter: createMemorySessionAdapter<PluginSession>(),
+          ttl: 60_000,
+          csrf: true,
+          transport: ['bearer', 'cookie'],
+          initialData: () => ({
+            visits: 0,
+            userId: null
+          })
+        })
+      )
+      .get('/token', () => ({ ok: true }))
+      .post('/submit', () => ({ ok: true }))
+
+    const bearer = await app.handle(new Request('http://localhost/token'))
+    const token = bearer.headers.get('x-session-id') ?? ''
+
+    const viaBearer = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: { authorization: `Bearer ${token}` }
+      })
+    )
+    expect(viaBearer.status).toBe(200)
+
+    const viaCookie = await app.handle(
+      new Request('http://localhost/submit', {
+        method: 'POST',
+        headers: { cookie: `sid=${token}` }
+      })
+    )
+    expect(viaCookie.status).toBe(403)
+  })
+
+  it('enforces idle and absolute timeouts independently of rolling refreshes', async () => {
+    const start = new Date('2030-01-01T00:00:00.000Z').getTime()
+    setSystemTime(start)
+
+    try {
+      const adapter = createMemorySessionAdapter<PluginSession>()
+
+      const app = new Elysia()
+        .use(
+          betterSession<PluginSession>({
+            adapter,
+            idleTimeout: 30 * 60_000,
+            absoluteTimeout: 60 * 60_000,
+            initialData: () => ({
+              visits: 0,
+              userId: null
+            })
+          })
+        )
+        .get('/visit', ({ session }) => {
+          session.set('visits', session.get('visits') + 1)
+          return { visits: session.get('visits') }
+        })
+
+      const visit = async (cookie: string) => {
+        const response = await app.handle(
+          new Request('http://localhost/visit', {
+            headers: {
+              cookie
+            }
+          })
+        )
+        const body = (await response.json()) as { visits: number }
+        return body.visits
+      }
+
+      const first = await app.handle(new Request('http://localhost/visit'))
+      const sessionCookie = cookiePair(first.headers.get('set-cookie')) ?? ''
+
+      setSystemTime(start + 20 * 60_000)
+      expect(await visit(sessionCookie)).toBe(2)
+
+      setSystemTime(start + 40 * 60_000)
+      expect(await visit(sessionCookie)).toBe(3)
+
+      setSystemTime(start + 61 * 60_000)
+      expect(await visit(sessionCookie)).toBe(1)
+
+      const idle = await app.handle(new Request('http://localhost/visit'))
+      const idleCookie = cookiePair(idle.headers.get('set-cookie')) ?? ''
+
+      setSystemTime(start + 92 * 60_000)
+      expect(await visit(idleCookie)).toBe(1)
+    } finally {
+      setSystemTime()
+    }
+  })
+
+  it('sweeps expired sessions while the server runs', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    let sweeps = 0
+    const pruneExpired = adapter.pruneExpired!.bind(adapter)
+    adapter.pruneExpired = async () => {
+      sweeps += 1
+      return pruneExpired()
+    }
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          sweepInterval: 5
+        })
+      )
+      .get('/', () => 'ok')
+
+    await Bun.sleep(20)
+    expect(sweeps).toBe(0)
+
+    app.listen(0)
+    await Bun.sleep(30)
+    expect(sweeps).toBeGreaterThan(0)
+
+    await app.stop()
+    const afterStop = sweeps
+    await Bun.sleep(20)
+    expect(sweeps).toBe(afterStop)
+  })
+
+  it('requires pruneExpired when a sweep interval is configured', () => {
+    expect(() =>
+      betterSession<PluginSession>({
+        adapter: {
+          async get() {
+            return null
+          },
+          async set() {},
+          async delete() {}
+        },
+        sweepInterval: 1_000
+      })
+    ).toThrow('pruneExpired')
+  })
+
+  it('rejects or merges writes that lost a race with a concurrent request', async () => {
+    type Cart = { items: string[] }
+
+    const createApp = (conflict: 'reject' | 'merge') => {
+      let handle: (request: Request) => Promise<Response> = fetch
+
+      const app = new Elysia()
+        .use(
+          betterSession<Cart>({
+            adapter: createMemorySessionAdapter<Cart>(),
+            cookie: { secure: false },
+            conflict:
+              conflict === 'reject'
+                ? 'reject'
+                : {
+                    merge: ({ base, current, attempted }) => ({
+                      items: [
+                        ...current.items,
+                        ...attempted.items.filter((item) => !base.items.includes(item))
+                      ]
+                    })
+                  },
+            initialData: () => ({ items: [] })
+          })
+        )
+        .get('/cart', ({ session }) => session.get('items'))
+        .post('/cart/:item', async ({ params, request, session }) => {
+          // Save a concurrent change while this request still holds the old version.
+          if (params.item === 'first') {
+            await handle(
+              new Request('http://localhost/cart/second', {
+                method: 'POST',
+                headers: { cookie: request.headers.get('cookie') ?? '' }
+              })
+            )
+          }
+
+          session.set('items', [...(session.get('items') ?? []), params.item])
+          return 'ok'
+        })
+
+      handle = (request) => app.handle(request)
+      return app
+    }
+
+    for (const policy of ['reject', 'merge'] as const) {
+      const app = createApp(policy)
+      const created = await app.handle(new Request('http://localhost/cart'))
+      const cookie = cookiePair(created.headers.get('set-cookie')) ?? ''
+
+      const raced = await app.handle(
+        new Request('http://localhost/cart/first', { method: 'POST', headers: { cookie } })
+      )
+      expect(raced.status).toBe(policy === 'reject' ? 409 : 200)
+
+      const cart = await app.handle(new Request('http://localhost/cart', { headers: { cookie } }))
+      expect(await cart.json()).toEqual(policy === 'reject' ? ['second'] : ['second', 'first'])
+    }
+  })
+
+  it('serves overlapping read-only requests without a conflict', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    adapter.touch = undefined
+    adapter.patch = undefined
+    let release = () => {}
+    const pending = new Promise<void>((resolve) => (release = resolve))
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          cookie: { secure: false },
+          conflict: 'reject',
+          initialData: () => ({ visits: 0, userId: null })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', session.get('visits') + 1)
+        return session.data
+      })
+      .get('/slow', async ({ session }) => {
+        await pending
+        return session.data
+      })
+
+    const created = await app.handle(new Request('http://localhost/visit'))
+    const cookie = cookiePair(created.headers.get('set-cookie')) ?? ''
+    const [id] = await adapter.ids!()
+
+    // Both requests load the session before either refreshes it.
+    const reads = [1, 2].map(() =>
+      app.handle(new Request('http://localhost/slow', { headers: { cookie } }))
+    )
+    await Bun.sleep(5)
+    release()
+
+    const responses = await Promise.all(reads)
+    expect(responses.map((response) => response.status)).toEqual([200, 200])
+    // A refresh keeps the version, so the next write still holds the current one.
+    expect((await adapter.get(id!))?.version).toBe(1)
+
+    const visited = await app.handle(new Request('http://localhost/visit', { headers: { cookie } }))
+    expect(visited.status).toBe(200)
+    expect(((await visited.json()) as PluginSession).visits).toBe(2)
+  })
+
+  it('sends only touched keys to adapter.patch and falls back to set on replace', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const writes: string[] = []
+    const set = adapter.set.bind(adapter)
+    const patch = adapter.patch!.bind(adapter)
+
+    adapter.set = async (id, session, setOptions) => {
+      writes.push('set')
+      return set(id, session, setOptions)
+    }
+    adapter.patch = async (id, changes) => {
+      writes.push(`patch ${JSON.stringify(changes.set)} ${changes.unset.join(',')}`)
+      return patch(id, changes)
+    }
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          cookie: { secure: false },
+          initialData: () => ({ visits: 0, userId: null })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        session.set('visits', (session.get('visits') ?? 0) + 1)
+        return session.data
+      })
+      .get('/logout', ({ session }) => {
+        session.delete('userId')
+        return session.data
+      })
+      .get('/reset', ({ session }) => {
+        session.replace({ visits: 0, userId: null })
+        return session.data
+      })
+
+    const created = await app.handle(new Request('http://localhost/visit'))
+    const cookie = cookiePair(created.headers.get('set-cookie')) ?? ''
+    const request = (path: string) =>
+      app.handle(new Request(`http://localhost${path}`, { headers: { cookie } }))
+
+    await request('/visit')
+    expect(await (await request('/logout')).json()).toEqual({ visits: 2 })
+    await request('/reset')
+
+    expect(writes).toEqual(['set', 'patch {"visits":2} ', 'patch {} userId', 'set'])
+    expect((await adapter.get(cookie.split('=')[1]!))?.data).toEqual({ visits: 0, userId: null })
+  })
+
+  it('refreshes expiry with adapter.touch once rollingThreshold has passed', async () => {
+    const adapter = createMemorySessionAdapter<PluginSession>()
+    const writes: string[] = []
+    const set = adapter.set.bind(adapter)
+    const touch = adapter.touch!.bind(adapter)
+
+    adapter.set = async (id, session, setOptions) => {
+      writes.push('set')
+      return set(id, session, setOptions)
+    }
+    adapter.touch = async (id, expiresAt) => {
+      writes.push('touch')
+      return touch(id, expiresAt)
+    }
+
+    const app = new Elysia()
+      .use(
+        betterSession<PluginSession>({
+          adapter,
+          ttl: 100_000,
+          rollingThreshold: 0.5,
+          cookie: { secure: false },
+          initialData: () => ({ visits: 0, userId: null })
+        })
+      )
+      .get('/read', ({ session }) => session.get('visits'))
+
+    const start = Date.now()
+
+    try {
+      setSystemTime(start)
+      const created = await app.handle(new Request('http://localhost/read'))
+      const cookie = cookiePair(created.headers.get('set-cookie')) ?? ''
+      const read = (offset: number) => {
+        setSystemTime(start + offset)
+        return app.handle(new Request('http://localhost/read', { headers: { cookie } }))
+      }
+
+      expect((await read(20_000)).headers.get('set-cookie')).toBeNull()
+      expect(writes).toEqual(['set'])
+
+      const refreshed = await read(60_000)
+      expect(refreshed.headers.get('set-cookie')).toContain(
+        new Date(start + 160_000).toUTCString()
+      )
+      expect(writes).toEqual(['set', 'touch'])
+
+      expect((await read(90_000)).headers.get('set-cookie')).toBeNull()
+      expect(writes).toEqual(['set', 'touch'])
+    } finally {
+      setSystemTime()
+    }
+  })
+
+  it('rejects rolling thresholds outside of [0, 1)', () => {
+    expect(() =>
+      betterSession<PluginSession>({
+        adapter: createMemorySessionAdapter<PluginSession>(),
+        rollingThreshold: 1
+      })
+    ).toThrow('rolling threshold')
+  })
+
+  it('infers the session type from a t.Object schema and resets invalid data', async () => {
+    const adapter = createMemorySessionAdapter<{ visits: number }>()
+
+    const app = new Elysia()
+      .use(
+        betterSession({
+          adapter,
+          cookie: { secure: false },
+          schema: t.Object({ visits: t.Number() }),
+          initialData: () => ({ visits: 0 })
+        })
+      )
+      .get('/visit', ({ session }) => {
+        const visits: number = session.get('visits') + 1
+        session.set('visits', visits)
+        return { visits }
+      })
+
+    const first = await app.handle(new Request('http://localhost/visit'))
+    const cookie = cookiePair(first.headers.get('set-cookie')) ?? ''
+    const id = cookie.split('=')[1]!
+    const stored = (await adapter.get(id))!
+
+    await adapter.set(id, { ...stored, data: { visits: 'many' } as never })
+
+    const reset = await app.handle(new Request('http://localhost/visit', { headers: { cookie } }))
+    expect(await reset.json()).toEqual({ visits: 1 })
+    expect((await adapter.get(id))?.data).toEqual({ visits: 1 })
+  })
+
+  it('destroys or rejects invalid sessions with a Standard Schema validator', async () => {
+    type Profile = { name: string }
+
+    const schema: StandardSchemaV1<unknown, Profile> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) =>
+          typeof (value as Profile).name === 'string'
+            ? { value: value as Profile }
+            : { issues: [{ message: 'name must be a string' }] }
+      }
+    }
+
+    const createApp = (invalidSession: SessionInvalidPolicy) => {
+      const adapter = createMemorySessionAdapter<Profile>()
+      const app = new Elysia()
+        .use(
+          betterSession({
+            adapter,
+            cookie: { secure: false },
+            schema,
+            invalidSession,
+            initialData: () => ({ name: 'guest' })
+          })
+        )
+        .get('/name', ({ session }) => session.get('name'))
+        .get('/break', ({ session }) => {
+          session.set('name', 42 as never)
+          return 'ok'
+        })
+
+      return { adapter, app }
+    }
+
+    for (const policy of ['destroy', 'throw'] as const) {
+      const { adapter, app } = createApp(policy)
+      const first = await app.handle(new Request('http://localhost/name'))
+      const cookie = cookiePair(first.headers.get('set-cookie')) ?? ''
+      const id = cookie.split('=')[1]!
+
+      const saved = await app.handle(new Request('http://localhost/break', { headers: { cookie } }))
+      expect(saved.status).toBe(500)
+
+      await adapter.set(id, { ...(await adapter.get(id))!, data: { name: 7 } as never })
+      const loaded = await app.handle(new Request('http://localhost/name', { headers: { cookie } }))
+
+      if (policy === 'throw') {
+        expect(loaded.status).toBe(500)
+        expect(await adapter.get(id)).not.toBeNull()
+      } else {
+        expect(await loaded.text()).toBe('guest')
+        expect(await adapter.get(id)).toBeNull()
+        expect(cookiePair(loaded.headers.get('set-cookie'))).not.toBe(cookie)
+      }
+    }
+  })
+
+  it('migrates stored sessions step by step to the current data version', async () => {
+    type ProfileV3 = { displayName: string; visits: number }
+
+    const adapter = createMemorySessionAdapter<ProfileV3>()
+    const createApp = (version: number) =>
+      new Elysia()
+        .use(
+          betterSession<ProfileV3>({
+            adapter,
+            cookie: { secure: false },
+            invalidSession: 'destroy',
+            version,
+            migrations: {
+              2: ({ name, ...rest }) => ({ ...rest, displayName: name ?? 'guest' }),
+              3: (data) => ({ ...data, visits: 0 })
+            },
+            initialData: () => ({ displayName: 'guest', visits: 0 })
+          })
+        )
+        .get('/profile', ({ session }) => session.data)
+
+    const expiresAt = Date.now() + 60_000
+    await adapter.set('legacy', { data: { name: 'Ada' } as never, expiresAt })
+
+    const upgraded = await createApp(3).handle(
+      new Request('http://localhost/profile', { headers: { cookie: 'sid=legacy' } })
+    )
+    expect(await upgraded.json()).toEqual({ displayName: 'Ada', visits: 0 })
+    expect(await adapter.get('legacy')).toMatchObject({
+      data: { displayName: 'Ada', visits: 0 },
+      schemaVersion: 3
+    })
+
+    // Rolling back a deploy must not hand newer data to older handlers.
+    const rolledBack = await createApp(2).handle(
+      new Request('http://localhost/profile', { headers: { cookie: 'sid=legacy' } })
+    )
+    expect(await rolledBack.json()).toEqual({ displayName: 'guest', visits: 0 })
+    expect(await adapter.get('legacy')).toBeNull()
+
+    expect(() => betterSession<ProfileV3>({ adapter, version: 2 })).toThrow(
+      'Missing session migration to version 2.'
+    )
+  })
+
+  it('applies the invalid session policy when a migration throws', async () => {
+    const adapter = createMemorySessionAdapter<{ displayName: string }>()
+    const app = new Elysia()
+      .use(
+        betterSession<{ displayName: string }>({
+          adapter,
+          cookie: { secure: false },
+          version: 2,
+          migrations: {
+            2: () => {
+              throw new Error('unreadable profile')
+            }
+          },
+          initialData: () => ({ displayName: 'guest' })
+        })
+      )
+      .get('/profile', ({ session }) => session.data)
+
+    await adapter.set('legacy', { data: { name: 'Ada' } as never, expiresAt: Date.now() + 60_000 })
+
+    const response = await app.handle(
+      new Request('http://localhost/profile', { headers: { cookie: 'sid=legacy' } })
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ displayName: 'guest' })
+    expect(await adapter.get('legacy')).toMatchObject({
+      data: { displayName: 'guest' },
+      schemaVersion: 2
+    })
+
+    const strict = new Elysia()
+      .use(
+        betterSession<{ displayName: string }>({
+          adapter,
+          version: 3,
+          invalidSession: 'throw',
+          migrations: {
+            2: (data) => data,
+            3: () => Promise.reject(new Error('unreadable profile'))
+          }
+        })
+      )
+      .get('/profile', ({ session }) => session.data)
+
+    const rejected = await strict.handle(
+      new Request('http://localhost/profile', { headers: { cookie: 'sid=legacy' } })
+    )
+    expect(rejected.status).toBe(500)
+    expect(await rejected.text()).toContain('Session migration to version 3 failed')
+  })
+
+  it('rejects features whose metadata the adapter cannot persist', async () => {
+    const adapter = createBaselineDrizzleAdapter()
+    expect(adapter.metadata).toEqual([])
+
+    expect(() => betterSession({ adapter, csrf: true })).toThrow(
+      'CSRF protection requires an adapter that persists session `csrfSecret`.'
+    )
+    expect(() => betterSession({ adapter, absoluteTimeout: 60_000 })).toThrow(
+      'The absolute timeout requires an adapter that persists session `createdAt`.'
+    )
+    expect(() => betterSession({ adapter, binding: true })).toThrow(
+      'Session binding requires an adapter that persists session `fingerprint`.'
+    )
+
+    expect(adapter.compareAndSet).toBe(false)
+    expect(() => betterSession({ adapter, conflict: 'reject' })).toThrow(
+      'The `conflict` policy requires an adapter that supports compare-and-set.'
+    )
+    const redis = createRedisSessionAdapter({
+      client: { get: () => null, set: () => 'OK', del: () => 0 }
+    })
+    expect(() => betterSession({ adapter: redis, conflict: 'reject' })).toThrow(
+      'supports compare-and-set'
+    )
+
+    const app = new Elysia()
+      .use(betterSession({ adapter }))
+      .get('/', ({ session }) => {
+        session.flash('notice', 'Saved.')
+        return { ok: true }
+      })
+
+    const response = await app.handle(new Request('http://localhost/'))
+    expect(response.status).toBe(500)
+    expect(await response.text()).toContain('Flash values require an adapter')
+  })
+
+  it('requires a stored data version to migrate drizzle sessions only once', async () => {
+    type ProfileV2 = { displayName: string }
+    const migrations = {
+      2: ({ name, ...rest }: JsonObject) => ({ ...rest, displayName: name ?? 'guest' })
+    }
+
+    const baseline = createBaselineDrizzleAdapter()
+
+    expect(() => betterSession({ adapter: baseline, version: 2, migrations })).toThrow(
+      'Session data versioning requires an adapter that persists session `schemaVersion`.'
+    )
+
+    const sqlite = new Database(':memory:')
+    sqlite.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        schema_version INTEGER,
+        expires_at INTEGER NOT NULL
+      );
+      INSERT INTO sessions VALUES ('legacy', '{"name":"alice"}', NULL, ${Date.now() + 60_000});
+    `)
+
+    const sessions = sqliteTable('sessions', {
+      id: text('id').primaryKey(),
+      data: text('data').notNull(),
+      schemaVersion: integer('schema_version'),
+      expiresAt: integer('expires_at', { mode: 'number' }).notNull()
+    })
+
+    const adapter = createDrizzleSessionAdapter<typeof sessions, ProfileV2>({
+      db: drizzle(sqlite),
+      table: sessions,
+      columns: {
+        id: (table) => table.id,
+        data: (table) => table.data,
+        schemaVersion: (table) => table.schemaVersion,
+        expiresAt: (table) => table.expiresAt
+      },
+      serializeExpiresAt: (value) => value,
+      deserializeExpiresAt: (value) => Number(value)
+    })
+
+    const app = new Elysia()
+      .use(betterSession<ProfileV2>({ adapter, version: 2, migrations }))
+      .get('/', ({ session }) => session.data)
+
+    const load = async () => {
+      const request = new Request('http://localhost/', { headers: { cookie: 'sid=legacy' } })
+      return (await app.handle(request)).json()
+    }
+
+    expect(await load()).toEqual({ displayName: 'alice' })
+    expect(await load()).toEqual({ displayName: 'alice' })
+    expect((await adapter.get('legacy'))?.schemaVersion).toBe(2)
+  })
 })